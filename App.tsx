@@ -1,27 +1,131 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import * as Tone from 'tone';
-import { WikiArticle, Location } from './types';
-import { getNearbyLandmarks } from './services/wikipediaService';
-import { initModel, getEmbedding, calculateDifference } from './services/embeddingService';
-import { engine, CompositionPhase } from './services/musicEngine';
+import { WikiArticle, Landmark, Location, InstrumentId } from './types';
+import { GeoSearchSettings, getFullArticle, getNearbyLandmarks, landmarkKey, loadGeoSearchSettings, saveGeoSearchSettings, searchLanguages, sortLandmarks } from './services/wikipediaService';
+import { initModel, getEmbedding, getEmbeddings, getTokenEmbeddings, calculateDifference, cosineSimilarity, EmbeddingCancelledError, modelForLanguages, watchEmbeddingQueue } from './services/embeddingService';
+import { engine, CompositionPhase, PlaybackOptions } from './services/musicEngine';
+import { composeScore, fitToBars, Score, ScoreEvent } from './services/score';
+import { Attribution, attributeTokens } from './services/attribution';
+import { composeForm } from './services/form';
+import { composeLocale } from './services/locale';
+import { composeArticle, embedSections, Movement, pickSections, splitSections } from './services/article';
+import { composeJourney, JourneyInterpolation } from './services/journey';
+import { createMidiFile } from './services/midiExport';
+import { downloadBlob, slugify } from './services/download';
+import { bounceStems, bounceWav } from './services/offlineRender';
+import { WavBitDepth } from './services/wavEncoder';
+import { composeSuite, MAX_ROUTE_STOPS } from './services/suite';
+import { isPlaced, orderByWalkingDistance, toLatLon } from './services/geo';
+import { deriveDNA, DNAOverrides, explainScale } from './services/musicDNA';
+import { Key, keyName, relateKeys } from './services/harmony';
+import { fitProjection, loadProjection, Projection, projectVector } from './services/projection';
+import { DEFAULT_ENSEMBLE_URL, EnsembleIndexEntry, INSTRUMENT_LABELS, loadEnsembleIndex } from './services/ensemble';
+import RouteBuilder from './components/RouteBuilder';
+import DNAPanel, { DNASource } from './components/DNAPanel';
+import MixerPanel from './components/MixerPanel';
+import WalkPanel from './components/WalkPanel';
+import SearchPanel from './components/SearchPanel';
+import MovementList from './components/MovementList';
+import AttributionView from './components/AttributionView';
+import SourcePanel from './components/SourcePanel';
+import PlaceMap from './components/PlaceMap';
+import { isPasted, loadSources, MAX_SOURCES, saveSources } from './services/sources';
+import { MixerSettings } from './services/mixer';
+import { requestHeadingPermission, routePath, SpatialPoint, spatialPoint, watchHeading } from './services/spatial';
+import { LandmarkFetch, livePosition, nearestLandmark, PositionSource, shouldRefresh } from './services/walking';
+import { gpxReplay, parseGpx } from './services/gpx';
+import { CacheStore, cacheStats, clearCache, isOffline, OfflineMissError, setOffline } from './services/cache';
+
+// Stable reference so the mixer's meter polling isn't restarted on every render
+const getEngineLevel = () => engine.getLevel();
+const watchEngineNotes = (listener: (event: ScoreEvent) => void) => {
+  engine.setNoteCallback(listener);
+  return () => engine.setNoteCallback(undefined);
+};
+
+// Walking pieces loop while a landmark stays nearest; transitions morph to the next one
+const WALK_PIECE_BARS = 16;
+const WALK_TRANSITION_BARS = 8;
+
+// Short or missing extracts carry too little signal, so fall back to the title
+const articleText = (a: WikiArticle) => (a.extract && a.extract.length > 30) ? a.extract : a.title;
 
 const App: React.FC = () => {
   const [autoLocation, setAutoLocation] = useState<Location | null>(null);
   const [manualLocation, setManualLocation] = useState<Location>({ latitude: 51.5074, longitude: -0.1278 }); // London default
   const [isManual, setIsManual] = useState(false);
-  const [landmarks, setLandmarks] = useState<WikiArticle[]>([]);
+  const [landmarks, setLandmarks] = useState<Landmark[]>([]);
+  const [geoSettings, setGeoSettings] = useState<GeoSearchSettings>(loadGeoSearchSettings);
+  const [anchor, setAnchor] = useState<string | null>(null);
+  // The landmarks in list order; everything else works from `landmarks`, nearest first
+  const [listedLandmarks, setListedLandmarks] = useState<Landmark[]>([]);
+  // Articles found by title and pasted texts, listed above the landmarks
+  const [sources, setSources] = useState<WikiArticle[]>(loadSources);
+  const [isRanking, setIsRanking] = useState(false);
   const [selection, setSelection] = useState<{ start: WikiArticle | null; end: WikiArticle | null }>({
     start: null,
     end: null,
   });
   
   const [modelStatus, setModelStatus] = useState<{ loading: boolean; progress: number }>({ loading: true, progress: 0 });
+  const [embeddingQueue, setEmbeddingQueue] = useState(0);
   const [engineInitialized, setEngineInitialized] = useState(false);
   const [sampleStatus, setSampleStatus] = useState(engine.loadedStates);
   const [isGenerating, setIsGenerating] = useState(false);
   const [playingPhase, setPlayingPhase] = useState<CompositionPhase>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [exportSettings, setExportSettings] = useState<{ bars: number; bitDepth: WavBitDepth; stems: boolean }>({
+    bars: 16,
+    bitDepth: 16,
+    stems: false,
+  });
+  const [journeySettings, setJourneySettings] = useState<{ mode: 'difference' | JourneyInterpolation; bars: number }>({
+    mode: 'slerp',
+    bars: 16,
+  });
+  const [bouncingPhase, setBouncingPhase] = useState<CompositionPhase | null>(null);
+  const [routeMode, setRouteMode] = useState(false);
+  const [route, setRoute] = useState<WikiArticle[]>([]);
+  const [routeEmbeddings, setRouteEmbeddings] = useState<Float32Array[] | null>(null);
+  const [isComposingRoute, setIsComposingRoute] = useState(false);
+  const [loopPlayback, setLoopPlayback] = useState(false);
+  const [dnaOverrides, setDnaOverrides] = useState<DNAOverrides>({});
+  const [dnaSource, setDnaSource] = useState(0);
+  const [projection, setProjection] = useState<Projection | null>(null);
+  const [isFittingProjection, setIsFittingProjection] = useState(false);
+  const [walk, setWalk] = useState<{ source: PositionSource; label: string } | null>(null);
+  const [walkPosition, setWalkPosition] = useState<Location | null>(null);
+  const [walkFetch, setWalkFetch] = useState<LandmarkFetch | null>(null);
+  const [walkLandmark, setWalkLandmark] = useState<Landmark | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(4);
+  const [isComposingLocale, setIsComposingLocale] = useState(false);
+  const [article, setArticle] = useState<{ source: WikiArticle; movements: Movement[] } | null>(null);
+  const [isComposingArticle, setIsComposingArticle] = useState(false);
+  const [currentSection, setCurrentSection] = useState<string | null>(null);
+  // Word-level explanation of the origin or target piece
+  const [explain, setExplain] = useState<'start' | 'end' | null>(null);
+  const [attribution, setAttribution] = useState<Attribution | null>(null);
+  const [isAttributing, setIsAttributing] = useState(false);
+  const [offline, setOfflineState] = useState(isOffline());
+  const [cacheCounts, setCacheCounts] = useState<Record<CacheStore, number> | null>(null);
+  const landmarkVectors = useRef(new Map<string, Float32Array>());
+  // Pair and route analysis in progress; a new selection cancels it
+  const analysis = useRef<AbortController | null>(null);
+  // Latest walk arrival and the landmark it is composing for; an arrival superseded while composing is dropped
+  const walkArrival = useRef<{ id: number; landmark: Landmark | null }>({ id: 0, landmark: null });
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(engine.getMixerSettings());
+  // False once compass access is refused; spatial audio then keeps north ahead
+  const [hasCompass, setHasCompass] = useState(true);
+  const [ensembles, setEnsembles] = useState<EnsembleIndexEntry[]>([]);
+  // SINGLE ZONE: Instruments with one recorded root, repitched across their whole range
+  const [ensemble, setEnsemble] = useState<{ id: string | null; instruments: InstrumentId[]; singleZone: InstrumentId[]; problems: string[]; switching: boolean }>({
+    id: null,
+    instruments: [],
+    singleZone: [],
+    problems: [],
+    switching: false,
+  });
 
   const [embeddings, setEmbeddings] = useState<{
     start: Float32Array | null;
@@ -29,14 +133,33 @@ const App: React.FC = () => {
     diff: Float32Array | null;
   }>({ start: null, end: null, diff: null });
 
+  // Any non-English edition needs the cross-lingual model, which has its own vector space
+  const embeddingModel = modelForLanguages(searchLanguages(geoSettings));
+
   useEffect(() => {
-    initModel((p) => setModelStatus({ loading: true, progress: Math.floor(p) }))
-      .then(() => setModelStatus({ loading: false, progress: 100 }))
-      .catch(() => setError("NLP Model failed to load."));
-    
     engine.setPhaseCallback(setPlayingPhase);
+    engine.setSectionCallback(setCurrentSection);
+    return watchEmbeddingQueue(setEmbeddingQueue);
   }, []);
 
+  useEffect(() => {
+    // Vectors from the previous model can't be compared with the new one's
+    landmarkVectors.current.clear();
+    setEmbeddings({ start: null, end: null, diff: null });
+    setRouteEmbeddings(null);
+    setArticle(null);
+    setModelStatus({ loading: true, progress: 0 });
+
+    initModel((p) => setModelStatus({ loading: true, progress: Math.floor(p) }), embeddingModel)
+      .then(() => setModelStatus({ loading: false, progress: 100 }))
+      .then(() => loadProjection(getEmbedding, embeddingModel))
+      .then(setProjection)
+      .catch((err) => {
+        console.error("Startup error:", err);
+        setError("NLP Model or projection failed to load.");
+      });
+  }, [embeddingModel]);
+
   useEffect(() => {
     navigator.geolocation.getCurrentPosition(
       (pos) => setAutoLocation({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
@@ -47,13 +170,92 @@ const App: React.FC = () => {
     );
   }, []);
 
-  const activeLocation = isManual ? manualLocation : autoLocation;
+  const baseLocation = isManual ? manualLocation : autoLocation;
+  // While walking the listener moves continuously, but landmarks are only re-fetched every so often
+  const activeLocation = walk ? walkPosition : baseLocation;
+  const searchLocation = walk ? walkFetch?.location ?? null : baseLocation;
+
+  // Only the latest search lands; a slow earlier one is dropped when it finally answers
+  useEffect(() => {
+    if (!searchLocation) return;
+    let current = true;
+    getNearbyLandmarks(searchLocation, geoSettings)
+      .then(found => { if (current) setLandmarks(found); })
+      .catch((err) => { if (current) setError(err instanceof OfflineMissError ? err.message : "Wikipedia is unreachable."); })
+      .finally(() => cacheStats().then(setCacheCounts));
+    return () => { current = false; };
+  }, [searchLocation, offline, geoSettings.radius, geoSettings.limit, geoSettings.types, geoSettings.language, geoSettings.mergeWith]);
+
+  // Ranking by meaning embeds every landmark first; without an anchor the list stays nearest first
+  useEffect(() => {
+    const anchorLandmark = landmarks.find(l => landmarkKey(l) === anchor);
+    if (geoSettings.sort !== 'semantic' || !anchorLandmark) {
+      setListedLandmarks(sortLandmarks(landmarks, geoSettings.sort === 'semantic' ? 'distance' : geoSettings.sort));
+      return;
+    }
+    const ranking = new AbortController();
+    setIsRanking(true);
+    landmarkVectorsFor(landmarks, ranking.signal)
+      .then(vectors => {
+        const reference = vectors[landmarks.indexOf(anchorLandmark)];
+        const closeness = Object.fromEntries(landmarks.map((l, i) => [landmarkKey(l), cosineSimilarity(reference, vectors[i])]));
+        if (!ranking.signal.aborted) setListedLandmarks(sortLandmarks(landmarks, 'semantic', closeness));
+      })
+      .catch((err) => { if (!(err instanceof EmbeddingCancelledError)) setError("Landmarks could not be embedded for ranking."); })
+      .finally(() => { if (!ranking.signal.aborted) setIsRanking(false); });
+    return () => ranking.abort();
+  }, [landmarks, geoSettings.sort, anchor, embeddingModel]);
+
+  // Explaining a piece re-reads its text token by token; the drivers follow the active projection
+  useEffect(() => {
+    setAttribution(null);
+    const source = explain && embeddings.diff ? selection[explain] : null;
+    if (!source) return;
+    const reading = new AbortController();
+    const text = articleText(source);
+    setIsAttributing(true);
+    getTokenEmbeddings(text, { signal: reading.signal })
+      .then(tokens => { if (!reading.signal.aborted) setAttribution(attributeTokens(text, tokens, projection)); })
+      .catch((err) => { if (!(err instanceof EmbeddingCancelledError)) setError("Word attribution failed."); })
+      .finally(() => { if (!reading.signal.aborted) setIsAttributing(false); });
+    return () => { reading.abort(); setIsAttributing(false); };
+  }, [explain, embeddings, projection]);
+
+  // In walking mode, turning the device turns the listener; without it north is ahead again
+  useEffect(() => {
+    if (mixerSettings.spatial === 'off' || !walk || !hasCompass) return;
+    const unwatch = watchHeading(heading => engine.setListenerHeading(heading));
+    return () => { unwatch(); engine.setListenerHeading(0); };
+  }, [mixerSettings.spatial, walk, hasCompass]);
+
+  // The locale follows the landmarks in view as the centre or radius moves
+  useEffect(() => {
+    if (playingPhase === 'locale') playLocale(true);
+  }, [landmarks]);
+
+  useEffect(() => {
+    if (!walk) return;
+    return walk.source(setWalkPosition, (message) => setError(`Position unavailable: ${message}`));
+  }, [walk]);
 
   useEffect(() => {
-    if (activeLocation) {
-      getNearbyLandmarks(activeLocation).then(setLandmarks).catch(() => setError("Wikipedia is unreachable."));
+    if (!walk || !walkPosition) return;
+    const now = Date.now();
+    if (shouldRefresh(walkFetch, walkPosition, now)) setWalkFetch({ location: walkPosition, time: now });
+
+    const heading = walkArrival.current.landmark ?? walkLandmark;
+    const nearest = nearestLandmark(walkPosition, landmarks, heading);
+    if (nearest && (!heading || landmarkKey(nearest) !== landmarkKey(heading))) {
+      handleWalkArrival(nearest);
+    } else if (walkLandmark && mixerSettings.spatial !== 'off') {
+      engine.moveTo(spatialPoint(toLatLon(walkPosition), walkLandmark));
     }
-  }, [activeLocation]);
+  }, [walkPosition, landmarks]);
+
+  useEffect(() => {
+    loadEnsembleIndex().then(setEnsembles).catch(() => setError("Ensemble list failed to load."));
+    handleSelectEnsemble(DEFAULT_ENSEMBLE_URL);
+  }, []);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -73,33 +275,225 @@ const App: React.FC = () => {
     }
   };
 
+  const updateSources = (next: WikiArticle[]) => {
+    setSources(next);
+    saveSources(next);
+  };
+
+  const addSource = (source: WikiArticle) => {
+    const others = sources.filter(s => landmarkKey(s) !== landmarkKey(source));
+    updateSources([source, ...others].slice(0, MAX_SOURCES));
+  };
+
+  const updateGeoSettings = (settings: GeoSearchSettings) => {
+    setGeoSettings(settings);
+    saveGeoSearchSettings(settings);
+  };
+
+  const updateMixer = (settings: MixerSettings) => {
+    // Compass access has to be asked for from the gesture that turns spatial audio on
+    if (settings.spatial !== 'off' && mixerSettings.spatial === 'off') {
+      const denied = () => {
+        setHasCompass(false);
+        setError("Compass access denied. Spatial audio keeps north ahead.");
+      };
+      requestHeadingPermission()
+        .then(granted => granted ? setHasCompass(true) : denied())
+        .catch(denied);
+    }
+    setMixerSettings(settings);
+    engine.setMixerSettings(settings);
+  };
+
+  // An ensemble whose manifest fails validation is not switched to; its problems are listed instead
+  const handleSelectEnsemble = async (url: string) => {
+    setEnsemble(prev => ({ ...prev, switching: true }));
+    try {
+      const problems = await engine.useEnsemble(url);
+      const manifest = engine.getManifest();
+      setEnsemble({
+        id: manifest?.id ?? null,
+        instruments: Object.keys(manifest?.instruments ?? {}) as InstrumentId[],
+        singleZone: (Object.keys(manifest?.instruments ?? {}) as InstrumentId[]).filter(id => manifest!.instruments[id]!.zones.length < 2),
+        problems,
+        switching: false,
+      });
+      setSampleStatus({ ...engine.loadedStates });
+    } catch (err) {
+      console.error("Ensemble error:", err);
+      setEnsemble(prev => ({ ...prev, problems: ["Samples failed to load."], switching: false }));
+    }
+  };
+
+  // Embeds whichever landmarks aren't known yet in one batched request
+  const landmarkVectorsFor = async (list: WikiArticle[], signal?: AbortSignal) => {
+    const missing = list.filter(l => !landmarkVectors.current.has(landmarkKey(l)));
+    const vectors = await getEmbeddings(missing.map(articleText), { signal });
+    missing.forEach((l, i) => landmarkVectors.current.set(landmarkKey(l), vectors[i]));
+    return list.map(l => landmarkVectors.current.get(landmarkKey(l))!);
+  };
+
+  const landmarkVector = async (landmark: WikiArticle) => (await landmarkVectorsFor([landmark]))[0];
+
+  const cancelAnalysis = () => {
+    analysis.current?.abort();
+    analysis.current = null;
+  };
+
+  const startAnalysis = () => {
+    cancelAnalysis();
+    analysis.current = new AbortController();
+    return analysis.current.signal;
+  };
+
+  // A new nearest landmark: morph from the one playing into its piece, crossfading as the transition comes in
+  const handleWalkArrival = async (next: Landmark) => {
+    const previous = walkLandmark;
+    const id = ++walkArrival.current.id;
+    walkArrival.current.landmark = next;
+    const isCurrent = () => walkArrival.current.id === id;
+    // Once its crossfade has started the landmark is the one playing, even if a newer arrival is still composing
+    const arrived = () => {
+      if (isCurrent()) walkArrival.current.landmark = null;
+      setWalkLandmark(next);
+    };
+    try {
+      if (!engineInitialized) await handleInitAudio();
+      const here = walkPosition ? toLatLon(walkPosition) : null;
+      const spatial = mixerSettings.spatial !== 'off' && here;
+
+      const vector = await landmarkVector(next);
+      const piece = composeScore(vector, { bars: WALK_PIECE_BARS, overrides: dnaOverrides, projection });
+      const pieceOptions: PlaybackOptions = { loop: true, spatial: spatial ? routePath(here, [next], piece) : undefined };
+      if (!previous || playingPhase !== 'walk') {
+        if (!isCurrent()) return;
+        await engine.crossfadeTo(piece, 'walk', pieceOptions);
+        arrived();
+        return;
+      }
+
+      const transition = composeJourney(await landmarkVector(previous), vector, {
+        bars: WALK_TRANSITION_BARS,
+        interpolation: 'slerp',
+        overrides: dnaOverrides,
+        projection
+      });
+      if (!isCurrent()) return;
+      await engine.crossfadeTo(transition, 'walk', {
+        spatial: spatial ? routePath(here, [previous, next], transition) : undefined,
+        then: { score: piece, phase: 'walk', options: pieceOptions }
+      });
+      arrived();
+    } catch (err) {
+      // The next position update retries the landmark
+      if (isCurrent()) walkArrival.current.landmark = null;
+      console.error("Walking error:", err);
+      setError("Could not compose the nearest landmark.");
+    }
+  };
+
+  // Reads the Origin's whole article and plays one movement per section
+  const playArticle = async () => {
+    const source = selection.start;
+    if (!source) return;
+    await Tone.start();
+    setIsComposingArticle(true);
+    setError(null);
+    const signal = startAnalysis();
+
+    try {
+      if (!engineInitialized) await handleInitAudio();
+      // Pasted text is its own full article
+      const text = isPasted(source) ? source.extract ?? '' : await getFullArticle(source);
+      const sections = pickSections(splitSections(text));
+      if (!sections.length) {
+        setError(isPasted(source) ? "This text is too short to play." : "This article has no sections long enough to play.");
+        return;
+      }
+      const next = { source, movements: await embedSections(sections, { signal }) };
+      setArticle(next);
+      const score = composeArticle(next.movements, { overrides: dnaOverrides, projection });
+      await engine.playScore(score, 'article', { spatial: getPhaseSpatialPath('article', score, source) });
+    } catch (err) {
+      if (err instanceof EmbeddingCancelledError) return;
+      console.error("Article error:", err);
+      setError(err instanceof OfflineMissError ? err.message : "The full article could not be read.");
+    } finally {
+      setIsComposingArticle(false);
+    }
+  };
+
+  // Embeds every landmark in view, then plays or recomposes the locale; it loops until stopped
+  const playLocale = async (crossfade: boolean) => {
+    setIsComposingLocale(true);
+    try {
+      if (!engineInitialized) await handleInitAudio();
+      await landmarkVectorsFor(landmarks);
+      const score = getPhaseScore('locale');
+      if (!score) return;
+      if (crossfade) await engine.crossfadeTo(score, 'locale', { loop: true });
+      else await engine.playScore(score, 'locale', { loop: true });
+    } catch (err) {
+      console.error("Locale error:", err);
+      setError("Semantic analysis failed.");
+    } finally {
+      setIsComposingLocale(false);
+    }
+  };
+
+  const toggleOffline = () => {
+    setOffline(!offline);
+    setOfflineState(!offline);
+  };
+
+  const handleClearCache = async () => {
+    await clearCache();
+    setCacheCounts(await cacheStats());
+  };
+
+  const startWalk = (source: PositionSource, label: string) => {
+    setWalkFetch(null);
+    setWalkPosition(null);
+    setWalkLandmark(null);
+    walkArrival.current = { id: walkArrival.current.id + 1, landmark: null };
+    setWalk({ source, label });
+  };
+
+  const handleLoadGpx = async (file: File) => {
+    try {
+      startWalk(gpxReplay(parseGpx(await file.text()), replaySpeed), `${file.name} ${replaySpeed}×`);
+    } catch (err) {
+      console.error("GPX error:", err);
+      setError(err instanceof Error ? err.message : "GPX file could not be read.");
+    }
+  };
+
+  const stopWalk = () => {
+    setWalk(null);
+    setWalkLandmark(null);
+    walkArrival.current = { id: walkArrival.current.id + 1, landmark: null };
+    if (playingPhase === 'walk') engine.stop();
+  };
+
   const handleCompose = async () => {
     if (!selection.start || !selection.end) return;
     
     await Tone.start();
     setIsGenerating(true);
     setError(null);
+    const signal = startAnalysis();
     
     try {
       if (!engineInitialized) await handleInitAudio();
       
-      const textA = (selection.start.extract && selection.start.extract.length > 30) 
-        ? selection.start.extract 
-        : selection.start.title;
-      const textB = (selection.end.extract && selection.end.extract.length > 30) 
-        ? selection.end.extract 
-        : selection.end.title;
-
-      const [embA, embB] = await Promise.all([
-        getEmbedding(textA),
-        getEmbedding(textB)
-      ]);
+      const [embA, embB] = await getEmbeddings([articleText(selection.start), articleText(selection.end)], { signal });
 
       const diff = calculateDifference(embA, embB);
       setEmbeddings({ start: embA, end: embB, diff: diff });
       
       if (playingPhase !== 'idle') engine.stop();
     } catch (err) {
+      if (err instanceof EmbeddingCancelledError) return;
       console.error("Composition error:", err);
       setError("Semantic analysis failed.");
     } finally {
@@ -107,39 +501,224 @@ const App: React.FC = () => {
     }
   };
 
+  const getPhaseVector = (phase: CompositionPhase) =>
+    phase === 'start' ? embeddings.start :
+    phase === 'end' ? embeddings.end :
+    embeddings.diff;
+
+  // The target's key is set by its similarity to the origin rather than read on its own
+  const keyRelation = embeddings.start && embeddings.end ? relateKeys(embeddings.start, embeddings.end, projection) : null;
+
+  // Looped single-vector pieces take `bars` when given; forms, journeys and suites span their own length until an export fits them
+  const getPhaseScore = (phase: CompositionPhase, bars?: number): Score | null => {
+    if (phase === 'locale') {
+      const vectors = landmarks.map(l => landmarkVectors.current.get(landmarkKey(l)));
+      if (!landmarks.length || vectors.some(v => !v)) return null;
+      return composeLocale(landmarks.map((l, i) => ({ ...l, embedding: vectors[i]! })), {
+        bars,
+        overrides: dnaOverrides,
+        projection,
+        listener: activeLocation ? toLatLon(activeLocation) : undefined
+      });
+    }
+    if (phase === 'article') {
+      return article ? composeArticle(article.movements, { overrides: dnaOverrides, projection }) : null;
+    }
+    if (phase === 'suite') {
+      return routeEmbeddings ? composeSuite(route.map((a, i) => ({ title: a.title, embedding: routeEmbeddings[i] })), { overrides: dnaOverrides, projection }) : null;
+    }
+    if (phase === 'traversal' && journeySettings.mode !== 'difference' && embeddings.start && embeddings.end) {
+      return composeJourney(embeddings.start, embeddings.end, {
+        bars: journeySettings.bars,
+        interpolation: journeySettings.mode,
+        overrides: dnaOverrides,
+        projection,
+        keys: keyRelation ?? undefined
+      });
+    }
+    const vec = getPhaseVector(phase);
+    if (!vec) return null;
+    const dna = phase === 'end' && keyRelation ? { ...deriveDNA(vec, projection), rootNote: keyRelation.to.root } : undefined;
+    return loopPlayback
+      ? composeScore(vec, { bars, dna, overrides: dnaOverrides, projection })
+      : composeForm(vec, { dna, overrides: dnaOverrides, projection });
+  };
+
+  // The DNA panel reads whichever vectors are on screen
+  const toDnaSource = (label: string, v: Float32Array, key?: Key): DNASource => ({
+    label,
+    dna: key ? { ...deriveDNA(v, projection), rootNote: key.root } : deriveDNA(v, projection),
+    readings: projection ? projectVector(projection, v) : [],
+    scaleReason: explainScale(v, projection)
+  });
+  const dnaSources: DNASource[] = routeMode
+    ? (routeEmbeddings ?? []).map((v, i) => toDnaSource(`${i + 1}`, v))
+    : embeddings.start && embeddings.end && embeddings.diff
+      ? [
+          toDnaSource('Origin', embeddings.start),
+          toDnaSource('Difference', embeddings.diff),
+          toDnaSource('Target', embeddings.end, keyRelation?.to)
+        ]
+      : [];
+
+  // Refits the axes over the landmarks in view and downloads the result for committing as public/projection.json
+  const handleFitProjection = async () => {
+    if (!projection || landmarks.length < 5) {
+      setError("Fitting needs at least 5 nearby landmarks.");
+      return;
+    }
+    setIsFittingProjection(true);
+    setError(null);
+    try {
+      const vectors = await landmarkVectorsFor(landmarks);
+      const corpus = landmarks.map((l, i) => ({ title: l.title, embedding: vectors[i] }));
+      const fitted = await fitProjection(projection, corpus, getEmbedding);
+      setProjection(fitted);
+      if (playingPhase !== 'idle') engine.stop();
+      downloadBlob(new Blob([JSON.stringify(fitted, null, 2)], { type: 'application/json' }), 'projection.json');
+    } catch (err) {
+      console.error("Projection fit error:", err);
+      setError("Projection fit failed.");
+    } finally {
+      setIsFittingProjection(false);
+    }
+  };
+
+  const updateOverrides = (next: DNAOverrides) => {
+    setDnaOverrides(next);
+    // Scores are composed on play, so stop the current one and let the next play pick up the change
+    if (playingPhase !== 'idle') engine.stop();
+  };
+
+  const getPhaseTitle = (phase: CompositionPhase) =>
+    phase === 'suite' ? route.map(a => a.title).join(' - ') :
+    phase === 'locale' ? 'locale' :
+    phase === 'article' ? `${article?.source.title} (full article)` :
+    phase === 'start' ? selection.start?.title ?? 'origin' :
+    phase === 'end' ? selection.end?.title ?? 'target' :
+    `${selection.start?.title} to ${selection.end?.title}`;
+
+  // Landmarks a phase plays, for placing it around the listener
+  const getPhaseSpatialPath = (phase: CompositionPhase, score: Score, source = article?.source): SpatialPoint[] | undefined => {
+    // The locale pans each of its layers itself
+    if (mixerSettings.spatial === 'off' || !activeLocation || phase === 'locale') return undefined;
+    const stops = phase === 'suite' ? route
+      : phase === 'article' ? [source]
+      : phase === 'traversal' ? [selection.start, selection.end]
+      : [phase === 'start' ? selection.start : selection.end];
+    // Sources without coordinates play from nowhere in particular, and so does any piece that includes one
+    if (stops.some(s => !s || !isPlaced(s))) return undefined;
+    return routePath(toLatLon(activeLocation), stops as Landmark[], score);
+  };
+
   const togglePlayback = async (phase: CompositionPhase) => {
     await Tone.start();
     
     if (playingPhase === phase) {
       engine.stop();
     } else {
-      const vec = phase === 'start' ? embeddings.start : 
-                  phase === 'end' ? embeddings.end : 
-                  embeddings.diff;
+      const score = getPhaseScore(phase);
       
-      if (vec) {
+      if (!score) return;
+      try {
         if (!engineInitialized) await handleInitAudio();
-        engine.play(vec, phase);
+        await engine.playScore(score, phase, { loop: loopPlayback, spatial: getPhaseSpatialPath(phase, score) });
+      } catch (err) {
+        console.error("Playback error:", err);
+        setError("Playback failed.");
       }
     }
   };
 
+  // Exports are always `exportSettings.bars` long, whatever the phase
+  const getExportScore = (phase: CompositionPhase) => {
+    const score = getPhaseScore(phase, exportSettings.bars);
+    return score && fitToBars(score, exportSettings.bars);
+  };
+
+  const handleExportMidi = (phase: CompositionPhase) => {
+    const score = getExportScore(phase);
+    if (!score) return;
+    const title = getPhaseTitle(phase);
+    const midi = createMidiFile(score, title);
+    downloadBlob(new Blob([midi], { type: 'audio/midi' }), `${slugify(title)}.mid`);
+  };
+
+  const handleBounce = async (phase: CompositionPhase) => {
+    const score = getExportScore(phase);
+    if (!score || bouncingPhase) return;
+
+    setBouncingPhase(phase);
+    setError(null);
+    try {
+      if (!engineInitialized) await handleInitAudio();
+      const { bitDepth, stems } = exportSettings;
+      const name = slugify(getPhaseTitle(phase));
+      const buffers = engine.getBuffers();
+
+      const spatial = getPhaseSpatialPath(phase, score);
+
+      const wav = await bounceWav(score, buffers, bitDepth, engine.getMixerSettings(), spatial);
+      downloadBlob(wav, `${name}.wav`);
+      if (stems) downloadBlob(await bounceStems(score, buffers, bitDepth, name, engine.getMixerSettings(), spatial), `${name}-stems.zip`);
+    } catch (err) {
+      console.error("Bounce error:", err);
+      setError("Offline render failed.");
+    } finally {
+      setBouncingPhase(null);
+    }
+  };
+
+  const updateRoute = (next: WikiArticle[]) => {
+    cancelAnalysis();
+    setRoute(next);
+    setRouteEmbeddings(null);
+    if (playingPhase === 'suite') engine.stop();
+  };
+
+  const handleComposeRoute = async () => {
+    await Tone.start();
+    setIsComposingRoute(true);
+    setError(null);
+    const signal = startAnalysis();
+
+    try {
+      if (!engineInitialized) await handleInitAudio();
+      setRouteEmbeddings(await getEmbeddings(route.map(articleText), { signal }));
+    } catch (err) {
+      if (err instanceof EmbeddingCancelledError) return;
+      console.error("Route composition error:", err);
+      setError("Semantic analysis failed.");
+    } finally {
+      setIsComposingRoute(false);
+    }
+  };
+
+  // Origin amber, target emerald; in route mode every stop is amber
+  const pickClass = (l: WikiArticle) => `text-left p-4 rounded-xl transition-all duration-300 border ${routeMode ? (route.some(s => landmarkKey(s) === landmarkKey(l)) ? 'bg-amber-500/10 border-amber-500 text-amber-500' : 'bg-stone-900/50 border-stone-800 hover:border-stone-600 text-stone-300') : selection.start && landmarkKey(selection.start) === landmarkKey(l) ? 'bg-amber-500/10 border-amber-500 text-amber-500' : selection.end && landmarkKey(selection.end) === landmarkKey(l) ? 'bg-emerald-500/10 border-emerald-500 text-emerald-500' : 'bg-stone-900/50 border-stone-800 hover:border-stone-600 text-stone-300'}`;
+
   const handleSelect = (l: WikiArticle) => {
+    if (routeMode) {
+      if (route.some(s => landmarkKey(s) === landmarkKey(l))) updateRoute(route.filter(s => landmarkKey(s) !== landmarkKey(l)));
+      else if (route.length < MAX_ROUTE_STOPS) updateRoute([...route, l]);
+      return;
+    }
+
     if (!selection.start) setSelection({ ...selection, start: l });
-    else if (selection.start.pageid === l.pageid) setSelection({ ...selection, start: null });
+    else if (landmarkKey(selection.start) === landmarkKey(l)) setSelection({ ...selection, start: null });
     else if (!selection.end) setSelection({ ...selection, end: l });
-    else if (selection.end.pageid === l.pageid) setSelection({ ...selection, end: null });
+    else if (landmarkKey(selection.end) === landmarkKey(l)) setSelection({ ...selection, end: null });
     else setSelection({ start: l, end: null });
     
+    cancelAnalysis();
     setEmbeddings({ start: null, end: null, diff: null });
     if (playingPhase !== 'idle') engine.stop();
   };
 
-  const handleManualCoordUpdate = (field: 'latitude' | 'longitude', val: string) => {
-    const num = parseFloat(val);
-    if (!isNaN(num)) {
-      setManualLocation(prev => ({ ...prev, [field]: num }));
-    }
+  // A searched place or a click on the map sets the centre by hand
+  const handleRecentre = (location: Location) => {
+    setManualLocation(location);
+    setIsManual(true);
   };
 
   return (
@@ -156,7 +735,7 @@ const App: React.FC = () => {
           </div>
           <div className="text-right flex flex-col gap-2 shrink-0">
             <div className={`text-[9px] mono p-2 rounded-lg border transition-colors ${modelStatus.loading ? 'border-amber-900/50 text-amber-600' : 'border-emerald-900/50 text-emerald-500'}`}>
-              MODEL: {modelStatus.loading ? `LOAD ${modelStatus.progress}%` : 'READY'}
+              MODEL: {modelStatus.loading ? `LOAD ${modelStatus.progress}%` : embeddingQueue ? `EMBEDDING ${embeddingQueue}` : 'READY'}
             </div>
             <div className={`text-[9px] mono p-2 rounded-lg border transition-colors ${!engineInitialized ? 'border-amber-900/50 text-amber-600' : 'border-emerald-900/50 text-emerald-500'}`}>
               AUDIO: {!engineInitialized ? 'WAITING' : 'READY'}
@@ -169,48 +748,112 @@ const App: React.FC = () => {
         <div className="lg:col-span-4 flex flex-col gap-4">
           <div className="flex justify-between items-center">
             <h2 className="text-xs font-bold uppercase tracking-widest text-stone-500">Local Landmarks</h2>
-            <button 
-              onClick={() => setIsManual(!isManual)}
-              className={`text-[9px] mono px-2 py-1 rounded border transition-all ${isManual ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500'}`}
-            >
-              {isManual ? 'MANUAL ON' : 'AUTO GPS'}
-            </button>
+            <div className="flex gap-2">
+              <button 
+                onClick={() => { setRouteMode(!routeMode); if (playingPhase !== 'idle') engine.stop(); }}
+                className={`text-[9px] mono px-2 py-1 rounded border transition-all ${routeMode ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500'}`}
+              >
+                {routeMode ? 'ROUTE' : 'PAIR'}
+              </button>
+              <button 
+                onClick={() => { setLoopPlayback(!loopPlayback); if (playingPhase !== 'idle') engine.stop(); }}
+                className={`text-[9px] mono px-2 py-1 rounded border transition-all ${loopPlayback ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500'}`}
+              >
+                {loopPlayback ? 'LOOP' : 'FORM'}
+              </button>
+              <button 
+                onClick={() => setIsManual(!isManual)}
+                className={`text-[9px] mono px-2 py-1 rounded border transition-all ${isManual ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500'}`}
+              >
+                {isManual ? 'MANUAL ON' : 'AUTO GPS'}
+              </button>
+            </div>
           </div>
 
-          {isManual && (
-            <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-3 animate-in fade-in slide-in-from-top-2">
-              <div className="grid grid-cols-2 gap-2">
-                <div className="flex flex-col gap-1">
-                  <label className="text-[9px] mono text-stone-500 uppercase">Latitude</label>
-                  <input 
-                    type="number" 
-                    step="0.0001"
-                    className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-xs mono text-stone-200 focus:border-amber-500 outline-none"
-                    value={manualLocation.latitude}
-                    onChange={(e) => handleManualCoordUpdate('latitude', e.target.value)}
-                  />
-                </div>
-                <div className="flex flex-col gap-1">
-                  <label className="text-[9px] mono text-stone-500 uppercase">Longitude</label>
-                  <input 
-                    type="number" 
-                    step="0.0001"
-                    className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-xs mono text-stone-200 focus:border-amber-500 outline-none"
-                    value={manualLocation.longitude}
-                    onChange={(e) => handleManualCoordUpdate('longitude', e.target.value)}
-                  />
-                </div>
-              </div>
-              <p className="text-[9px] text-stone-600 italic">Enter coordinates to explore other regions.</p>
-            </div>
+          <WalkPanel
+            source={walk?.label ?? null}
+            position={walkPosition}
+            landmark={walkLandmark}
+            replaySpeed={replaySpeed}
+            onReplaySpeedChange={setReplaySpeed}
+            onStartLive={() => startWalk(livePosition, 'Live GPS')}
+            onLoadGpx={handleLoadGpx}
+            onStop={stopWalk}
+          />
+
+          <button
+            onClick={() => playingPhase === 'locale' ? engine.stop() : playLocale(false)}
+            disabled={!landmarks.length || isComposingLocale}
+            className={`text-[9px] mono px-2 py-2 rounded-xl border transition-all uppercase disabled:opacity-40 ${playingPhase === 'locale' ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500 hover:border-stone-600'}`}
+            title="Every landmark in view as a quiet layer, placed by bearing and faded by distance"
+          >
+            {isComposingLocale ? 'Listening…' : playingPhase === 'locale' ? '■ Stop Locale' : `▶ Locale · ${landmarks.length} layers`}
+          </button>
+
+          <button
+            onClick={() => playingPhase === 'article' ? engine.stop() : playArticle()}
+            disabled={(!selection.start && playingPhase !== 'article') || isComposingArticle || routeMode}
+            className={`text-[9px] mono px-2 py-2 rounded-xl border transition-all uppercase disabled:opacity-40 line-clamp-1 ${playingPhase === 'article' ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500 hover:border-stone-600'}`}
+            title="The Origin's whole article, one movement per section"
+          >
+            {isComposingArticle ? 'Reading…' : playingPhase === 'article' ? '■ Stop Article' : `▶ Full Article · ${selection.start?.title ?? 'select an Origin'}`}
+          </button>
+
+          {article && (
+            <MovementList
+              title={article.source.title}
+              movements={article.movements.map(m => m.title)}
+              current={playingPhase === 'article' ? currentSection : null}
+            />
           )}
 
+          <SearchPanel
+            settings={geoSettings}
+            onChange={updateGeoSettings}
+            landmarks={landmarks}
+            anchor={anchor}
+            onAnchorChange={setAnchor}
+            isRanking={isRanking}
+          />
+
+          <PlaceMap
+            centre={activeLocation}
+            radius={geoSettings.radius}
+            landmarks={landmarks}
+            origin={selection.start && landmarkKey(selection.start)}
+            target={selection.end && landmarkKey(selection.end)}
+            stops={routeMode ? route.map(landmarkKey) : []}
+            language={geoSettings.language}
+            canRecentre={!walk}
+            onSelect={handleSelect}
+            onRecentre={handleRecentre}
+          />
+
+          <SourcePanel language={geoSettings.language} onAdd={addSource} />
+
           <div className="flex flex-col gap-2 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
-            {landmarks.map((l) => (
-              <button key={l.pageid} onClick={() => handleSelect(l)} className={`text-left p-4 rounded-xl transition-all duration-300 border ${selection.start?.pageid === l.pageid ? 'bg-amber-500/10 border-amber-500 text-amber-500' : selection.end?.pageid === l.pageid ? 'bg-emerald-500/10 border-emerald-500 text-emerald-500' : 'bg-stone-900/50 border-stone-800 hover:border-stone-600 text-stone-300'}`}>
+            {sources.map((l) => (
+              <div key={landmarkKey(l)} className="flex gap-2">
+                <button onClick={() => handleSelect(l)} className={`flex-1 min-w-0 ${pickClass(l)}`}>
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold text-sm line-clamp-1">{l.title}</span>
+                    <span className="text-[10px] opacity-60 mono shrink-0 ml-2">{isPasted(l) ? 'text' : `${l.lang}${isPlaced(l) ? ' · geotagged' : ''}`}</span>
+                  </div>
+                </button>
+                <button
+                  onClick={() => updateSources(sources.filter(s => s !== l))}
+                  title="Remove from sources"
+                  className="text-[10px] mono text-stone-600 hover:text-red-400 px-1"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {listedLandmarks.map((l) => (
+              <button key={landmarkKey(l)} onClick={() => handleSelect(l)} className={pickClass(l)}>
                 <div className="flex justify-between items-center mb-1">
                   <span className="font-semibold text-sm line-clamp-1">{l.title}</span>
-                  <span className="text-[10px] opacity-60 mono shrink-0 ml-2">{(l.dist / 1000).toFixed(2)}km</span>
+                  <span className="text-[10px] opacity-60 mono shrink-0 ml-2">{searchLanguages(geoSettings).length > 1 && `${l.lang} · `}{(l.dist / 1000).toFixed(2)}km</span>
                 </div>
               </button>
             ))}
@@ -220,7 +863,23 @@ const App: React.FC = () => {
         <div className="lg:col-span-8 flex flex-col gap-6">
           <div className="bg-stone-900/40 border border-stone-800 rounded-3xl p-8 min-h-[500px] flex flex-col items-center justify-center relative overflow-hidden shadow-2xl">
             
-            {!embeddings.diff && !isGenerating && (
+            {routeMode && (
+              <RouteBuilder
+                route={route}
+                isComposed={!!routeEmbeddings}
+                isComposing={isComposingRoute}
+                isPlaying={playingPhase === 'suite'}
+                isBouncing={bouncingPhase === 'suite'}
+                onChange={updateRoute}
+                onSortByDistance={() => updateRoute([...orderByWalkingDistance(route.filter(isPlaced)), ...route.filter(s => !isPlaced(s))])}
+                onCompose={handleComposeRoute}
+                onTogglePlay={() => togglePlayback('suite')}
+                onExportMidi={() => handleExportMidi('suite')}
+                onBounce={() => handleBounce('suite')}
+              />
+            )}
+
+            {!routeMode && !embeddings.diff && !isGenerating && (
               <div className="text-center z-10 px-4">
                 <div className="flex gap-4 mb-8 justify-center">
                   <div className={`w-3 h-3 rounded-full transition-all duration-500 ${selection.start ? 'bg-amber-500 scale-125 shadow-[0_0_15px_rgba(245,158,11,0.5)]' : 'bg-stone-800'}`}></div>
@@ -237,52 +896,184 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {isGenerating && (
+            {!routeMode && isGenerating && (
               <div className="flex flex-col items-center gap-6 z-10">
                 <div className="w-16 h-16 border-4 border-amber-500/20 border-t-amber-500 rounded-full animate-spin"></div>
                 <p className="text-amber-500 mono text-xs uppercase tracking-widest">Generating Latent Profiles...</p>
               </div>
             )}
 
-            {embeddings.diff && (
+            {!routeMode && embeddings.diff && (
               <div className="w-full flex flex-col items-center gap-10 z-10">
                 
                 <div className="grid grid-cols-3 gap-6 w-full max-w-2xl">
                    {/* Origin Card */}
-                   <button 
-                    onClick={() => togglePlayback('start')}
-                    className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'start' ? 'border-amber-500 bg-amber-500/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
-                   >
-                      <span className="text-[10px] mono uppercase text-amber-500 mb-3 font-bold tracking-widest">Listen: Origin</span>
-                      <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'start' ? 'bg-amber-500 text-white' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
-                        {playingPhase === 'start' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
-                      </div>
-                      <span className="mt-4 text-[11px] text-stone-300 font-medium line-clamp-1">{selection.start?.title}</span>
-                   </button>
+                   <div className="flex flex-col gap-2">
+                     <button 
+                      onClick={() => togglePlayback('start')}
+                      className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'start' ? 'border-amber-500 bg-amber-500/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
+                     >
+                        <span className="text-[10px] mono uppercase text-amber-500 mb-3 font-bold tracking-widest">Listen: Origin</span>
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'start' ? 'bg-amber-500 text-white' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
+                          {playingPhase === 'start' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
+                        </div>
+                        <span className="mt-4 text-[11px] text-stone-300 font-medium line-clamp-1">{selection.start?.title}</span>
+                     </button>
+                     <div className="flex gap-2">
+                       <button onClick={() => handleExportMidi('start')} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         MIDI
+                       </button>
+                       <button onClick={() => handleBounce('start')} disabled={!!bouncingPhase} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         {bouncingPhase === 'start' ? 'Rendering…' : 'WAV'}
+                       </button>
+                       <button
+                         onClick={() => setExplain(explain === 'start' ? null : 'start')}
+                         title="Which words drive this piece"
+                         className={`flex-1 text-[9px] mono uppercase border rounded-full py-1 transition-colors ${explain === 'start' ? 'border-stone-400 text-stone-200' : 'text-stone-500 hover:text-stone-200 border-stone-800 hover:border-stone-600'}`}
+                       >
+                         Why
+                       </button>
+                     </div>
+                   </div>
 
                    {/* Journey Card */}
-                   <button 
-                    onClick={() => togglePlayback('traversal')}
-                    className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'traversal' ? 'border-white bg-white/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
-                   >
-                      <span className="text-[10px] mono uppercase text-stone-100 mb-3 font-bold tracking-widest">Listen: Journey</span>
-                      <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'traversal' ? 'bg-white text-stone-950' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
-                        {playingPhase === 'traversal' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
-                      </div>
-                      <span className="mt-4 text-[11px] text-stone-300 font-medium italic">Difference Vector</span>
-                   </button>
+                   <div className="flex flex-col gap-2">
+                     <button 
+                      onClick={() => togglePlayback('traversal')}
+                      className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'traversal' ? 'border-white bg-white/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
+                     >
+                        <span className="text-[10px] mono uppercase text-stone-100 mb-3 font-bold tracking-widest">Listen: Journey</span>
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'traversal' ? 'bg-white text-stone-950' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
+                          {playingPhase === 'traversal' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
+                        </div>
+                        <span className="mt-4 text-[11px] text-stone-300 font-medium italic">
+                          {journeySettings.mode === 'difference' ? 'Difference Vector' : `Morph · ${journeySettings.bars} bars`}
+                        </span>
+                     </button>
+                     <div className="flex gap-2">
+                       <button onClick={() => handleExportMidi('traversal')} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         MIDI
+                       </button>
+                       <button onClick={() => handleBounce('traversal')} disabled={!!bouncingPhase} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         {bouncingPhase === 'traversal' ? 'Rendering…' : 'WAV'}
+                       </button>
+                     </div>
+                   </div>
 
                    {/* Target Card */}
-                   <button 
-                    onClick={() => togglePlayback('end')}
-                    className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'end' ? 'border-emerald-500 bg-emerald-500/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
-                   >
-                      <span className="text-[10px] mono uppercase text-emerald-500 mb-3 font-bold tracking-widest">Listen: Target</span>
-                      <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'end' ? 'bg-emerald-500 text-white' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
-                        {playingPhase === 'end' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
-                      </div>
-                      <span className="mt-4 text-[11px] text-stone-300 font-medium line-clamp-1">{selection.end?.title}</span>
-                   </button>
+                   <div className="flex flex-col gap-2">
+                     <button 
+                      onClick={() => togglePlayback('end')}
+                      className={`flex flex-col items-center p-6 rounded-2xl border transition-all duration-300 group ${playingPhase === 'end' ? 'border-emerald-500 bg-emerald-500/10 scale-105 shadow-lg' : 'border-stone-800 bg-stone-900/50 hover:border-stone-700'}`}
+                     >
+                        <span className="text-[10px] mono uppercase text-emerald-500 mb-3 font-bold tracking-widest">Listen: Target</span>
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${playingPhase === 'end' ? 'bg-emerald-500 text-white' : 'bg-stone-800 text-stone-400 group-hover:bg-stone-700'}`}>
+                          {playingPhase === 'end' ? <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-6 h-6 translate-x-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
+                        </div>
+                        <span className="mt-4 text-[11px] text-stone-300 font-medium line-clamp-1">{selection.end?.title}</span>
+                     </button>
+                     <div className="flex gap-2">
+                       <button onClick={() => handleExportMidi('end')} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         MIDI
+                       </button>
+                       <button onClick={() => handleBounce('end')} disabled={!!bouncingPhase} className="flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40">
+                         {bouncingPhase === 'end' ? 'Rendering…' : 'WAV'}
+                       </button>
+                       <button
+                         onClick={() => setExplain(explain === 'end' ? null : 'end')}
+                         title="Which words drive this piece"
+                         className={`flex-1 text-[9px] mono uppercase border rounded-full py-1 transition-colors ${explain === 'end' ? 'border-stone-400 text-stone-200' : 'text-stone-500 hover:text-stone-200 border-stone-800 hover:border-stone-600'}`}
+                       >
+                         Why
+                       </button>
+                     </div>
+                   </div>
+                </div>
+
+                {keyRelation && (
+                  <p className="text-[9px] mono uppercase text-stone-500">
+                    Key: <span className="text-amber-500">{keyName(keyRelation.from)}</span> → <span className="text-emerald-500">{keyName(keyRelation.to)}</span>
+                    {' '}· similarity {keyRelation.similarity.toFixed(2)} · {keyRelation.fifths === 0 ? 'shared key' : keyRelation.fifths === 6 ? 'tritone' : `${keyRelation.fifths} fifth${keyRelation.fifths > 1 ? 's' : ''} apart`}
+                  </p>
+                )}
+
+                {explain && selection[explain] && (
+                  <AttributionView
+                    title={selection[explain]!.title}
+                    text={articleText(selection[explain]!)}
+                    attribution={attribution}
+                    isLoading={isAttributing}
+                    watchNotes={playingPhase === explain ? watchEngineNotes : undefined}
+                    onClose={() => setExplain(null)}
+                  />
+                )}
+
+                <div className="flex items-center gap-4 text-[9px] mono uppercase text-stone-500">
+                  <label className="flex items-center gap-2">
+                    Journey
+                    <select
+                      className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-stone-200 focus:border-amber-500 outline-none"
+                      value={journeySettings.mode}
+                      onChange={(e) => setJourneySettings(prev => ({ ...prev, mode: e.target.value as 'difference' | JourneyInterpolation }))}
+                    >
+                      <option value="slerp">Morph (slerp)</option>
+                      <option value="linear">Morph (linear)</option>
+                      <option value="difference">Difference loop</option>
+                    </select>
+                  </label>
+                  {journeySettings.mode !== 'difference' && (
+                    <label className="flex items-center gap-2">
+                      Length
+                      <input
+                        type="number"
+                        min={2}
+                        max={128}
+                        className="w-14 bg-stone-950 border border-stone-800 rounded px-2 py-1 text-stone-200 focus:border-amber-500 outline-none"
+                        value={journeySettings.bars}
+                        onChange={(e) => {
+                          const bars = parseInt(e.target.value, 10);
+                          if (!isNaN(bars) && bars > 1) setJourneySettings(prev => ({ ...prev, bars }));
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-4 text-[9px] mono uppercase text-stone-500">
+                  <label className="flex items-center gap-2" title="MIDI and WAV exports are cut, or looped, to this many bars">
+                    Export bars
+                    <input
+                      type="number"
+                      min={1}
+                      max={256}
+                      className="w-14 bg-stone-950 border border-stone-800 rounded px-2 py-1 text-stone-200 focus:border-amber-500 outline-none"
+                      value={exportSettings.bars}
+                      onChange={(e) => {
+                        const bars = parseInt(e.target.value, 10);
+                        if (!isNaN(bars) && bars > 0) setExportSettings(prev => ({ ...prev, bars }));
+                      }}
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    WAV
+                    <select
+                      className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-stone-200 focus:border-amber-500 outline-none"
+                      value={exportSettings.bitDepth}
+                      onChange={(e) => setExportSettings(prev => ({ ...prev, bitDepth: Number(e.target.value) as WavBitDepth }))}
+                    >
+                      <option value={16}>16-bit</option>
+                      <option value={24}>24-bit</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-amber-500"
+                      checked={exportSettings.stems}
+                      onChange={(e) => setExportSettings(prev => ({ ...prev, stems: e.target.checked }))}
+                    />
+                    Stems (.zip)
+                  </label>
                 </div>
 
                 <div className="flex gap-3">
@@ -299,10 +1090,47 @@ const App: React.FC = () => {
             )}
           </div>
 
+          {dnaSources.length > 0 && (
+            <DNAPanel
+              sources={dnaSources}
+              activeSource={Math.min(dnaSource, dnaSources.length - 1)}
+              overrides={dnaOverrides}
+              projection={projection}
+              isFitting={isFittingProjection}
+              ensembleInstruments={ensemble.instruments}
+              onSelectSource={setDnaSource}
+              onChange={updateOverrides}
+              onFitProjection={handleFitProjection}
+            />
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="bg-stone-900/30 border border-stone-800/50 p-6 rounded-3xl flex flex-col gap-4">
-              <span className="text-[10px] font-bold text-stone-600 uppercase tracking-wider">Engine Nodes</span>
-              <div className="flex justify-between items-center px-2">
+              <div className="flex justify-between items-center gap-3">
+                <span className="text-[10px] font-bold text-stone-600 uppercase tracking-wider">Engine Nodes</span>
+                <select
+                  className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-[9px] mono uppercase text-stone-300 focus:border-amber-500 outline-none disabled:opacity-50"
+                  value={ensemble.id ?? ''}
+                  disabled={ensemble.switching || ensembles.length === 0}
+                  onChange={(e) => {
+                    const entry = ensembles.find(en => en.id === e.target.value);
+                    if (entry) handleSelectEnsemble(entry.manifest);
+                  }}
+                >
+                  {ensembles.map(en => <option key={en.id} value={en.id}>{en.label}</option>)}
+                </select>
+              </div>
+              {ensemble.problems.length > 0 && (
+                <ul className="text-[9px] mono text-red-400 flex flex-col gap-1">
+                  {ensemble.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {ensemble.singleZone.length > 0 && (
+                <p className="text-[9px] mono text-stone-500">
+                  Single zone, repitched from one recording: {ensemble.singleZone.map(id => INSTRUMENT_LABELS[id]).join(', ')}
+                </p>
+              )}
+              <div className="flex flex-wrap justify-between items-center gap-3 px-2">
                 {Object.entries(sampleStatus).map(([key, ok]) => (
                   <div key={key} className="flex flex-col items-center gap-2">
                     <div className={`w-3 h-3 rounded-full transition-all duration-1000 ${ok ? 'bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]' : 'bg-stone-800'}`}></div>
@@ -311,12 +1139,28 @@ const App: React.FC = () => {
                 ))}
               </div>
             </div>
-            <div className="bg-stone-900/30 border border-stone-800/50 p-6 rounded-3xl flex flex-col justify-between gap-4">
+            <MixerPanel settings={mixerSettings} onChange={updateMixer} getLevel={getEngineLevel} />
+            <div className="md:col-span-2 bg-stone-900/30 border border-stone-800/50 p-6 rounded-3xl flex flex-col justify-between gap-4">
               <span className="text-[10px] font-bold text-stone-600 uppercase tracking-wider">Status Dashboard</span>
               <div className="flex justify-between items-center">
                 <span className="text-[10px] mono text-stone-500 uppercase">Phase: {playingPhase.toUpperCase()}</span>
                 <button onClick={() => engine.reset()} className="text-[9px] mono bg-stone-800 hover:bg-stone-700 px-3 py-1 rounded transition-colors uppercase">Re-Sync Audio</button>
               </div>
+              <div className="flex justify-between items-center gap-3">
+                <span className="text-[10px] mono text-stone-500 uppercase">
+                  Cache: {cacheCounts ? `${cacheCounts.geosearch} areas · ${cacheCounts.extracts} extracts · ${cacheCounts.embeddings} embeddings` : '—'}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={toggleOffline}
+                    title="Use only cached areas, extracts and embeddings"
+                    className={`text-[9px] mono px-3 py-1 rounded border transition-colors uppercase ${offline ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500 hover:border-stone-600'}`}
+                  >
+                    {offline ? 'Offline' : 'Online'}
+                  </button>
+                  <button onClick={handleClearCache} className="text-[9px] mono bg-stone-800 hover:bg-stone-700 px-3 py-1 rounded transition-colors uppercase">Clear Cache</button>
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Attribution, DriverId, dominantVoices, topWords, wordsForDim } from '../services/attribution';
+import { deriveDNA, VOICE_KEYS, VoiceKey } from '../services/musicDNA';
+import { ScoreEvent } from '../services/score';
+import { MusicDNA } from '../types';
+
+// Literal class names so the Tailwind CDN picks them up
+const VOICE_COLOURS: Record<VoiceKey, { text: string; lit: string; chip: string }> = {
+  bass: { text: 'text-sky-400', lit: 'bg-sky-500/40 text-white', chip: 'border-sky-500 text-sky-400' },
+  tenor: { text: 'text-violet-400', lit: 'bg-violet-500/40 text-white', chip: 'border-violet-500 text-violet-400' },
+  alto: { text: 'text-rose-400', lit: 'bg-rose-500/40 text-white', chip: 'border-rose-500 text-rose-400' },
+  soprano: { text: 'text-lime-400', lit: 'bg-lime-500/40 text-white', chip: 'border-lime-500 text-lime-400' }
+};
+
+const DRIVER_LABELS: Record<DriverId, string> = {
+  meter: 'Meter',
+  articulation: 'Articulation',
+  mood: 'Mood',
+  bass: 'Bass',
+  tenor: 'Tenor',
+  alto: 'Alto',
+  soprano: 'Soprano'
+};
+
+// What the DNA ended up with for each driver
+const outcome = (dna: MusicDNA, id: DriverId) =>
+  id === 'meter' ? `${dna.beatsPerBar}/4` :
+  id === 'articulation' ? (dna.articulation < -0.1 ? 'staccato' : 'legato') :
+  id === 'mood' ? dna.scaleType :
+  `register ${dna[id].pitchRegister.toFixed(2)}`;
+
+interface AttributionViewProps {
+  title: string;
+  /** The text that was embedded */
+  text: string;
+  attribution: Attribution | null;
+  isLoading: boolean;
+  /** Subscribes to notes as they sound, while this text's piece is playing */
+  watchNotes?: (listener: (event: ScoreEvent) => void) => () => void;
+  onClose: () => void;
+}
+
+/**
+ * Why a place sounds the way it does: the embedded text with each word
+ * coloured by the voice it moves most, the words behind each DNA field,
+ * and the words behind the notes sounding now.
+ */
+const AttributionView: React.FC<AttributionViewProps> = ({ title, text, attribution, isLoading, watchNotes, onClose }) => {
+  const [driver, setDriver] = useState<DriverId | null>(null);
+  // Word indices each voice's latest note was read from
+  const [lit, setLit] = useState<Partial<Record<VoiceKey, number[]>>>({});
+
+  const voices = useMemo(() => attribution ? dominantVoices(attribution) : [], [attribution]);
+  const dna = useMemo(() => attribution ? deriveDNA(attribution.pooled, attribution.projection) : null, [attribution]);
+  const peak = useMemo(() => attribution && driver ? Math.max(...attribution.words.map(w => Math.abs(w.drivers[driver]))) || 1 : 1, [attribution, driver]);
+
+  useEffect(() => {
+    setLit({});
+    if (!watchNotes || !attribution) return;
+    const index = new Map(attribution.words.map((w, i) => [w, i]));
+    const unwatch = watchNotes(event => {
+      if (event.dim === undefined || event.voice === 'perc') return;
+      const voice = event.voice;
+      const words = wordsForDim(attribution, event.dim).map(w => index.get(w)!);
+      setLit(prev => ({ ...prev, [voice]: words }));
+    });
+    return () => { unwatch(); setLit({}); };
+  }, [watchNotes, attribution]);
+
+  const litVoice = (i: number) => VOICE_KEYS.find(v => lit[v]?.includes(i));
+
+  // The text in runs: words the tokenizer was matched to, and the plain stretches between them
+  const runs = useMemo(() => {
+    if (!attribution) return [];
+    const out: { text: string; word?: number }[] = [];
+    let at = 0;
+    attribution.words.forEach((w, i) => {
+      if (w.start < at) return;
+      if (w.start > at) out.push({ text: text.slice(at, w.start) });
+      out.push({ text: text.slice(w.start, w.end), word: i });
+      at = w.end;
+    });
+    out.push({ text: text.slice(at) });
+    return out;
+  }, [attribution, text]);
+
+  const wordClass = (i: number) => {
+    const sounding = litVoice(i);
+    if (sounding) return `rounded px-0.5 transition-colors ${VOICE_COLOURS[sounding].lit}`;
+    const word = attribution!.words[i];
+    if (driver) {
+      const push = word.drivers[driver];
+      if (Math.abs(push) < peak * 0.2) return 'transition-colors';
+      return `transition-colors ${push > 0 ? 'text-emerald-400' : 'text-amber-500'}`;
+    }
+    const voice = voices[i];
+    return voice ? `transition-colors ${VOICE_COLOURS[voice.voice].text}` : 'transition-colors';
+  };
+
+  const top = attribution && driver ? topWords(attribution, driver) : null;
+  const selected = attribution?.drivers.find(d => d.id === driver);
+
+  return (
+    <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-3 w-full max-w-2xl">
+      <div className="flex justify-between items-center gap-3">
+        <span className="text-[9px] mono text-stone-600 uppercase tracking-widest line-clamp-1">Why it sounds like this · {title}</span>
+        <button onClick={onClose} className="text-[9px] mono uppercase text-stone-500 hover:text-stone-200">Close</button>
+      </div>
+
+      {isLoading && <span className="text-[9px] mono uppercase text-amber-500 animate-pulse">Reading word by word…</span>}
+
+      {attribution && dna && (
+        <>
+          <div className="flex flex-wrap gap-1 text-[9px] mono uppercase">
+            <button
+              onClick={() => setDriver(null)}
+              className={`px-2 py-1 rounded border transition-all ${!driver ? 'border-stone-400 text-stone-200' : 'border-stone-800 text-stone-500 hover:border-stone-600'}`}
+            >
+              Voices
+            </button>
+            {attribution.drivers.map(d => (
+              <button
+                key={d.id}
+                onClick={() => setDriver(d.id)}
+                title={`Reads ${d.reads}`}
+                className={`px-2 py-1 rounded border transition-all ${driver === d.id
+                  ? (d.id in VOICE_COLOURS ? VOICE_COLOURS[d.id as VoiceKey].chip : 'border-amber-500 text-amber-500')
+                  : 'border-stone-800 text-stone-500 hover:border-stone-600'}`}
+              >
+                {DRIVER_LABELS[d.id]} · {outcome(dna, d.id)}
+              </button>
+            ))}
+          </div>
+
+          {!driver && (
+            <div className="flex flex-wrap gap-3 text-[9px] mono uppercase">
+              {VOICE_KEYS.map(v => <span key={v} className={VOICE_COLOURS[v].text}>■ {DRIVER_LABELS[v]}</span>)}
+              <span className="text-stone-600 normal-case italic">Highlights follow the notes as they play</span>
+            </div>
+          )}
+
+          {top && selected && (
+            <div className="grid grid-cols-2 gap-3 text-[10px]">
+              <div className="flex flex-col gap-1">
+                <span className="text-[9px] mono uppercase text-emerald-400">Towards {selected.positive}</span>
+                {top.positive.map((w, i) => <span key={i} className="text-stone-300">{w.text} <span className="mono text-stone-600">+{w.drivers[selected.id].toFixed(4)}</span></span>)}
+              </div>
+              <div className="flex flex-col gap-1">
+                <span className="text-[9px] mono uppercase text-amber-500">Towards {selected.negative}</span>
+                {top.negative.map((w, i) => <span key={i} className="text-stone-300">{w.text} <span className="mono text-stone-600">{w.drivers[selected.id].toFixed(4)}</span></span>)}
+              </div>
+              <span className="col-span-2 text-[9px] mono text-stone-600">Reads {selected.reads}</span>
+            </div>
+          )}
+
+          <p className="text-xs leading-relaxed text-stone-500 max-h-64 overflow-y-auto">
+            {runs.map((run, k) => run.word === undefined
+              ? <span key={k}>{run.text}</span>
+              : <span key={k} className={wordClass(run.word)}>{run.text}</span>)}
+          </p>
+          {attribution.readUpTo < text.trim().length && (
+            <span className="text-[9px] mono text-stone-600">The model stops reading after “{text.slice(Math.max(0, attribution.readUpTo - 24), attribution.readUpTo)}”.</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttributionView;
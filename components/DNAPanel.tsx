@@ -0,0 +1,250 @@
+import React from 'react';
+import { MusicDNA, VoiceConfig } from '../types';
+import { applyOverrides, AXIS_EFFECTS, DNAOverrides, hasOverrides, METERS, ROOTS, VOICE_KEYS, VoiceKey } from '../services/musicDNA';
+import { SCALE_IDS, SCALE_LIBRARY } from '../services/scales';
+import { INSTRUMENT_LABELS } from '../services/ensemble';
+import { AxisReading, Projection } from '../services/projection';
+
+export interface DNASource {
+  label: string;
+  dna: MusicDNA;
+  readings: AxisReading[];
+  /** The scale rule that fired for this vector */
+  scaleReason: string;
+}
+
+interface DNAPanelProps {
+  sources: DNASource[];
+  activeSource: number;
+  overrides: DNAOverrides;
+  projection: Projection | null;
+  isFitting: boolean;
+  /** Instruments the active ensemble has samples for; others play as the voice's default */
+  ensembleInstruments: VoiceConfig['instrument'][];
+  onSelectSource: (index: number) => void;
+  onChange: (overrides: DNAOverrides) => void;
+  onFitProjection: () => void;
+}
+
+type VoiceControl = Exclude<keyof VoiceConfig, 'instrument'>;
+const VOICE_CONTROLS: { key: VoiceControl; label: string }[] = [
+  { key: 'pitchRegister', label: 'Register' },
+  { key: 'rhythmicDensity', label: 'Density' },
+  { key: 'consonance', label: 'Consonance' }
+];
+
+const inputClass = "bg-stone-950 border rounded px-2 py-1 text-stone-200 focus:border-amber-500 outline-none";
+// Overridden fields are outlined so it's clear what no longer follows the data
+const fieldClass = (overridden: boolean) => `${inputClass} ${overridden ? 'border-amber-500' : 'border-stone-800'}`;
+
+/**
+ * Shows the DNA derived from the selected vector and lets any field be pinned.
+ * Pinned values apply to every piece until cleared.
+ */
+const DNAPanel: React.FC<DNAPanelProps> = ({
+  sources, activeSource, overrides, projection, isFitting, ensembleInstruments, onSelectSource, onChange, onFitProjection
+}) => {
+  const source = sources[activeSource] ?? sources[0];
+  if (!source) return null;
+  const dna = applyOverrides(source.dna, overrides);
+  // Unfitted axes have no corpus centre or spread, so their readings are shown as provisional
+  const fitted = !!projection?.fittedAt;
+
+  const setGlobal = <K extends keyof Omit<MusicDNA, VoiceKey>>(key: K, value: MusicDNA[K] | undefined) => {
+    const next = { ...overrides, [key]: value };
+    if (value === undefined) delete next[key];
+    onChange(next);
+  };
+
+  const setVoice = <K extends keyof VoiceConfig>(voice: VoiceKey, key: K, value: VoiceConfig[K] | undefined) => {
+    const next = { ...overrides[voice], [key]: value };
+    if (value === undefined) delete next[key];
+    onChange({ ...overrides, [voice]: next });
+  };
+
+  return (
+    <div className="bg-stone-900/30 border border-stone-800/50 p-6 rounded-3xl flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-stone-600 uppercase tracking-wider">Music DNA</span>
+        <div className="flex gap-2">
+          {sources.map((s, i) => (
+            <button
+              key={s.label}
+              onClick={() => onSelectSource(i)}
+              className={`text-[9px] mono px-2 py-1 rounded border transition-all uppercase ${i === activeSource ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 text-stone-500'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+          <button
+            onClick={() => onChange({})}
+            disabled={!hasOverrides(overrides)}
+            className="text-[9px] mono px-2 py-1 rounded border border-stone-800 text-stone-500 hover:border-stone-600 hover:text-stone-200 transition-all disabled:opacity-40 uppercase"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-3 text-[9px] mono uppercase text-stone-500">
+        <label className="flex flex-col gap-1">
+          Tempo
+          <input
+            type="number"
+            min={30}
+            max={240}
+            className={fieldClass(overrides.tempo !== undefined)}
+            value={Math.round(dna.tempo)}
+            onChange={(e) => {
+              const bpm = parseInt(e.target.value, 10);
+              if (!isNaN(bpm) && bpm > 0) setGlobal('tempo', bpm);
+            }}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Scale {overrides.scaleType !== undefined && '· locked'}
+          <select
+            className={fieldClass(overrides.scaleType !== undefined)}
+            value={overrides.scaleType ?? ''}
+            onChange={(e) => setGlobal('scaleType', (e.target.value || undefined) as MusicDNA['scaleType'] | undefined)}
+          >
+            <option value="">Auto · {SCALE_LIBRARY[source.dna.scaleType].label}</option>
+            {SCALE_IDS.map(s => <option key={s} value={s}>{SCALE_LIBRARY[s].label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Root
+          <select
+            className={fieldClass(overrides.rootNote !== undefined)}
+            value={dna.rootNote}
+            onChange={(e) => setGlobal('rootNote', e.target.value)}
+          >
+            {ROOTS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Meter
+          <select
+            className={fieldClass(overrides.beatsPerBar !== undefined)}
+            value={dna.beatsPerBar}
+            onChange={(e) => setGlobal('beatsPerBar', Number(e.target.value) as MusicDNA['beatsPerBar'])}
+          >
+            {METERS.map(m => <option key={m} value={m}>{m}/4</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Articulation
+          <input
+            type="range"
+            min={-1}
+            max={1}
+            step={0.05}
+            className={`accent-amber-500 ${overrides.articulation !== undefined ? '' : 'opacity-60'}`}
+            value={dna.articulation}
+            onChange={(e) => setGlobal('articulation', Number(e.target.value))}
+          />
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="accent-amber-500"
+            checked={dna.counterpoint}
+            onChange={(e) => setGlobal('counterpoint', e.target.checked)}
+          />
+          Counterpoint
+        </label>
+        <label className="flex flex-col gap-1">
+          Voice leading
+          <select
+            className={fieldClass(overrides.voiceLeading !== undefined)}
+            value={dna.voiceLeading}
+            onChange={(e) => setGlobal('voiceLeading', e.target.value as MusicDNA['voiceLeading'])}
+          >
+            <option value="smooth">Smooth</option>
+            <option value="raw">Raw</option>
+          </select>
+        </label>
+      </div>
+
+      <p className="text-[9px] mono text-stone-500">
+        <span className="uppercase">Scale rule:</span> {overrides.scaleType !== undefined ? 'locked by hand' : source.scaleReason}
+      </p>
+
+      <div className="flex flex-col gap-2 text-[9px] mono uppercase text-stone-500">
+        <div className="flex justify-between items-center">
+          <span>
+            {projection
+              ? `Projection v${projection.version} · ${fitted ? `fitted on ${projection.corpusSize} landmarks` : 'unfitted'}`
+              : 'No projection · raw dimensions'}
+          </span>
+          <button
+            onClick={onFitProjection}
+            disabled={!projection || isFitting}
+            title="Fits on the landmarks in view only, a handful of places rather than a corpus"
+            className="px-2 py-1 rounded border border-stone-800 hover:border-stone-600 hover:text-stone-200 transition-all disabled:opacity-40 uppercase"
+          >
+            {isFitting ? 'Fitting…' : 'Fit to landmarks'}
+          </button>
+        </div>
+        {projection && !fitted && (
+          <span className="normal-case italic text-stone-600">
+            Axes come from anchor phrases alone, with a guessed spread and no corpus behind them. A reading shows which way a place leans, not how far, and the poles are labels rather than measured meanings.
+          </span>
+        )}
+        {source.readings.map(({ axis, value }) => (
+          <div key={axis.id} className="grid grid-cols-12 items-center gap-2">
+            <span className="col-span-2 text-right line-clamp-1 normal-case">{axis.negative.label}</span>
+            <div className="col-span-5 relative h-1.5 rounded-full bg-stone-800">
+              <div className="absolute top-1/2 w-px h-3 -translate-y-1/2 bg-stone-600 left-1/2"></div>
+              <div
+                className={`absolute top-1/2 w-2.5 h-2.5 -translate-y-1/2 -translate-x-1/2 rounded-full ${fitted ? 'bg-amber-500' : 'bg-stone-500'}`}
+                style={{ left: `${(value + 1) * 50}%` }}
+              ></div>
+            </div>
+            <span className="col-span-2 line-clamp-1 normal-case">{axis.positive.label}</span>
+            <span className="col-span-3 text-stone-600">{AXIS_EFFECTS[axis.id] ?? '—'}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        {VOICE_KEYS.map(voice => (
+          <div key={voice} className="flex flex-col gap-2 p-3 rounded-xl border border-stone-800 text-[9px] mono uppercase text-stone-500">
+            <span className="text-amber-500 font-bold tracking-widest">{voice}</span>
+            <select
+              className={fieldClass(overrides[voice]?.instrument !== undefined)}
+              value={dna[voice].instrument}
+              onChange={(e) => setVoice(voice, 'instrument', e.target.value as VoiceConfig['instrument'])}
+            >
+              {(Object.keys(INSTRUMENT_LABELS) as VoiceConfig['instrument'][]).map(id => (
+                <option key={id} value={id}>
+                  {INSTRUMENT_LABELS[id]}{ensembleInstruments.includes(id) ? '' : ' (not in ensemble)'}
+                </option>
+              ))}
+            </select>
+            {VOICE_CONTROLS.map(({ key, label }) => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  {label}
+                  <span className={overrides[voice]?.[key] !== undefined ? 'text-amber-500' : ''}>{dna[voice][key].toFixed(2)}</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  className="accent-amber-500"
+                  value={dna[voice][key]}
+                  onChange={(e) => setVoice(voice, key, Number(e.target.value))}
+                  onDoubleClick={() => setVoice(voice, key, undefined)}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DNAPanel;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ChannelSettings, DEFAULT_MIXER, isAudible, MIXER_CHANNELS, MixerChannel, MixerSettings } from '../services/mixer';
+import { SpatialMode } from '../services/spatial';
+
+interface MixerPanelProps {
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+  /** Polled for the master meter */
+  getLevel: () => { db: number; reduction: number };
+}
+
+type StripControl = 'gain' | 'pan' | 'delaySend' | 'reverbSend';
+const STRIP_CONTROLS: { key: StripControl; label: string; min: number; max: number; step: number }[] = [
+  { key: 'gain', label: 'Gain', min: -30, max: 6, step: 0.5 },
+  { key: 'pan', label: 'Pan', min: -1, max: 1, step: 0.05 },
+  { key: 'delaySend', label: 'Dly', min: 0, max: 1, step: 0.01 },
+  { key: 'reverbSend', label: 'Rev', min: 0, max: 1, step: 0.01 }
+];
+
+const SPATIAL_MODES: { mode: SpatialMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'stereo', label: 'Stereo' },
+  { mode: 'binaural', label: 'Binaural' }
+];
+
+// Meter scale floor in dB
+const METER_FLOOR = -60;
+
+const toggleClass = (on: boolean, colour: string) =>
+  `w-5 h-5 rounded text-[9px] font-bold transition-colors ${on ? colour : 'bg-stone-800 text-stone-500 hover:bg-stone-700'}`;
+
+/**
+ * Channel strips for each voice and the percussion, and the master bus with
+ * its meter. Every change applies live; the engine saves the mix.
+ */
+const MixerPanel: React.FC<MixerPanelProps> = ({ settings, onChange, getLevel }) => {
+  const [level, setLevel] = useState({ db: -Infinity, reduction: 0 });
+
+  useEffect(() => {
+    const timer = setInterval(() => setLevel(getLevel()), 100);
+    return () => clearInterval(timer);
+  }, [getLevel]);
+
+  const setStrip = (channel: MixerChannel, patch: Partial<ChannelSettings>) =>
+    onChange({ ...settings, channels: { ...settings.channels, [channel]: { ...settings.channels[channel], ...patch } } });
+  const setMaster = (patch: Partial<MixerSettings['master']>) =>
+    onChange({ ...settings, master: { ...settings.master, ...patch } });
+
+  const meterWidth = Number.isFinite(level.db) ? Math.max(0, Math.min(1, (level.db - METER_FLOOR) / -METER_FLOOR)) : 0;
+
+  return (
+    <div className="bg-stone-900/30 border border-stone-800/50 p-6 rounded-3xl flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-stone-600 uppercase tracking-wider">Mixer</span>
+        <button
+          onClick={() => onChange(DEFAULT_MIXER)}
+          className="text-[9px] mono bg-stone-800 hover:bg-stone-700 px-3 py-1 rounded transition-colors uppercase"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 text-[9px] mono uppercase text-stone-500">
+        {MIXER_CHANNELS.map(channel => {
+          const strip = settings.channels[channel];
+          return (
+            <div key={channel} className={`grid grid-cols-[3.5rem_repeat(4,1fr)_auto] gap-2 items-center ${isAudible(settings, channel) ? '' : 'opacity-40'}`}>
+              <span className="text-amber-500 font-bold tracking-widest">{channel}</span>
+              {STRIP_CONTROLS.map(({ key, label, min, max, step }) => (
+                <label key={key} className="flex flex-col gap-0.5" title={`${label}: ${strip[key].toFixed(2)}`}>
+                  <span>{label}</span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    className="accent-amber-500"
+                    value={strip[key]}
+                    onChange={(e) => setStrip(channel, { [key]: Number(e.target.value) })}
+                    onDoubleClick={() => setStrip(channel, { [key]: DEFAULT_MIXER.channels[channel][key] })}
+                  />
+                </label>
+              ))}
+              <div className="flex gap-1">
+                <button className={toggleClass(strip.mute, 'bg-red-600 text-white')} onClick={() => setStrip(channel, { mute: !strip.mute })}>M</button>
+                <button className={toggleClass(strip.solo, 'bg-amber-500 text-stone-950')} onClick={() => setStrip(channel, { solo: !strip.solo })}>S</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-2 pt-3 border-t border-stone-800 text-[9px] mono uppercase text-stone-500">
+        <div className="grid grid-cols-3 gap-2">
+          <label className="flex flex-col gap-0.5">
+            <span>Master {settings.master.gain.toFixed(1)} dB</span>
+            <input type="range" min={-30} max={6} step={0.5} className="accent-amber-500" value={settings.master.gain} onChange={(e) => setMaster({ gain: Number(e.target.value) })} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span>Threshold {settings.master.threshold} dB</span>
+            <input type="range" min={-40} max={0} step={1} className="accent-amber-500" value={settings.master.threshold} onChange={(e) => setMaster({ threshold: Number(e.target.value) })} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span>Ratio {settings.master.ratio}:1</span>
+            <input type="range" min={1} max={20} step={0.5} className="accent-amber-500" value={settings.master.ratio} onChange={(e) => setMaster({ ratio: Number(e.target.value) })} />
+          </label>
+        </div>
+        <div className="flex items-center gap-2" title="Places the music at the landmarks' compass bearings from you; binaural is for headphones">
+          <span>Spatial</span>
+          {SPATIAL_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...settings, spatial: mode })}
+              className={`px-2 py-0.5 rounded-full border transition-colors ${settings.spatial === mode ? 'border-amber-500 text-amber-500' : 'border-stone-800 hover:border-stone-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-2 bg-stone-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-[width] duration-100 ${level.db > -3 ? 'bg-red-500' : level.db > -12 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+              style={{ width: `${meterWidth * 100}%` }}
+            />
+          </div>
+          <span className="w-16 text-right">{Number.isFinite(level.db) ? `${level.db.toFixed(1)} dB` : '-∞ dB'}</span>
+          <span className="w-14 text-right" title="Compressor gain reduction">GR {level.reduction.toFixed(1)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MixerPanel;
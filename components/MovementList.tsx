@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface MovementListProps {
+  title: string;
+  /** Movement names, in playing order */
+  movements: string[];
+  /** The movement playing now, or null when stopped */
+  current: string | null;
+}
+
+/** The movements of a full-article piece, lighting up the one being played. */
+const MovementList: React.FC<MovementListProps> = ({ title, movements, current }) => (
+  <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-2">
+    <span className="text-[9px] mono text-stone-600 uppercase tracking-widest line-clamp-1">{title} · {movements.length} movements</span>
+    <ol className="flex flex-col gap-1">
+      {movements.map((name, i) => (
+        <li
+          key={i}
+          className={`text-xs flex gap-2 transition-colors ${name === current ? 'text-amber-500' : 'text-stone-500'}`}
+        >
+          <span className="mono text-[9px] w-4 shrink-0 pt-0.5">{['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII'][i] ?? i + 1}</span>
+          <span className="line-clamp-1">{name === current ? `♪ ${name}` : name}</span>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default MovementList;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Landmark, Location } from '../types';
+import { OfflineMissError } from '../services/cache';
+import { bearing, destination, haversineDistance, LatLon, toLatLon } from '../services/geo';
+import { landmarkKey, searchPlaces } from '../services/wikipediaService';
+
+// Typing pauses this long before places are looked up
+const SUGGEST_DELAY_MS = 300;
+// Plot units: the search radius lands on MAP_RADIUS, leaving a margin inside the view box
+const MAP_RADIUS = 90;
+const VIEW = 100;
+// Clicks closer than this to the centre, in plot units, don't move it
+const MIN_MOVE = 2;
+
+// "51.5074, -0.1278" typed into the search box goes straight to those coordinates
+const COORDINATES = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+interface PlaceMapProps {
+  /** Null until there is a position to search around */
+  centre: Location | null;
+  /** Search radius in metres, the edge of the plot */
+  radius: number;
+  landmarks: Landmark[];
+  /** `landmarkKey`s of the origin, target and route stops, for colouring their dots */
+  origin: string | null;
+  target: string | null;
+  stops: string[];
+  /** Edition place names are looked up in */
+  language: string;
+  /** False while walking, when the position comes from GPS or a track */
+  canRecentre: boolean;
+  onSelect: (landmark: Landmark) => void;
+  onRecentre: (location: Location) => void;
+}
+
+/**
+ * A tile-free plot of the landmarks around the centre, placed by bearing
+ * and distance with north up, plus a place-name search. Clicking a dot
+ * picks it like the list does; clicking elsewhere moves the centre there.
+ */
+const PlaceMap: React.FC<PlaceMapProps> = ({ centre, radius, landmarks, origin, target, stops, language, canRecentre, onSelect, onRecentre }) => {
+  const [search, setSearch] = useState('');
+  const [places, setPlaces] = useState<{ title: string; location: Location }[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlaces([]);
+    const typed = search.match(COORDINATES);
+    if (typed) {
+      const [latitude, longitude] = [Number(typed[1]), Number(typed[2])];
+      if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) setPlaces([{ title: `${typed[1]}, ${typed[2]}`, location: { latitude, longitude } }]);
+      else setMessage('Latitude runs from -90 to 90 and longitude from -180 to 180.');
+      return;
+    }
+    if (!search.trim()) return;
+    let current = true;
+    const timer = setTimeout(() => {
+      searchPlaces(language, search.trim())
+        .then(found => {
+          if (!current) return;
+          setPlaces(found);
+          setMessage(found.length ? null : 'No geotagged place by that name.');
+        })
+        .catch(err => { if (current) setMessage(err instanceof OfflineMissError ? err.message : 'Place search failed.'); });
+    }, SUGGEST_DELAY_MS);
+    return () => { current = false; clearTimeout(timer); };
+  }, [search, language]);
+
+  const goTo = (location: Location) => {
+    onRecentre(location);
+    setSearch('');
+    setMessage(null);
+  };
+
+  const here = centre && toLatLon(centre);
+  const plot = (from: LatLon, l: Landmark) => {
+    const d = Math.min(1, haversineDistance(from, l) / radius) * MAP_RADIUS;
+    const b = bearing(from, l) * Math.PI / 180;
+    return { x: Math.sin(b) * d, y: -Math.cos(b) * d };
+  };
+
+  // Inverse of `plot`: a click in plot units back to a point on the ground
+  const handleMapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!canRecentre || !here) return;
+    const svg = e.currentTarget;
+    const matrix = svg.getScreenCTM();
+    if (!matrix) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    const d = Math.hypot(point.x, point.y);
+    if (d < MIN_MOVE) return;
+    const to = destination(here, (Math.atan2(point.x, -point.y) * 180 / Math.PI + 360) % 360, d / MAP_RADIUS * radius);
+    onRecentre({ latitude: to.lat, longitude: to.lon });
+  };
+
+  const dotColour = (key: string) =>
+    key === origin ? '#f59e0b' : key === target ? '#10b981' : stops.includes(key) ? '#f59e0b' : '#a8a29e';
+
+  const hoveredLandmark = landmarks.find(l => landmarkKey(l) === hovered);
+  const km = (m: number) => `${(m / 1000).toFixed(m < 1000 ? 2 : 1)} km`;
+
+  return (
+    <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-3 text-[9px] mono uppercase text-stone-500">
+      <div className="flex flex-col gap-1">
+        <input
+          className="bg-stone-950 border border-stone-800 rounded px-2 py-1 text-xs normal-case text-stone-200 focus:border-amber-500 outline-none disabled:opacity-50"
+          placeholder="Go to a place, or lat, lon"
+          value={search}
+          disabled={!canRecentre}
+          onChange={(e) => { setSearch(e.target.value); setMessage(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter' && places[0]) goTo(places[0].location); }}
+        />
+        {places.map(p => (
+          <button
+            key={p.title}
+            onClick={() => goTo(p.location)}
+            className="text-left normal-case text-xs text-stone-400 hover:text-amber-500 px-2 py-0.5"
+          >
+            → {p.title}
+          </button>
+        ))}
+        {message && <span className="normal-case text-stone-600 italic">{message}</span>}
+      </div>
+
+      {!here ? (
+        <span className="normal-case italic text-stone-600">Waiting for a position. Search for a place to look around it instead.</span>
+      ) : (
+        <>
+          <svg
+            viewBox={`${-VIEW} ${-VIEW} ${VIEW * 2} ${VIEW * 2}`}
+            className={`w-full aspect-square bg-stone-950/60 rounded-lg ${canRecentre ? 'cursor-crosshair' : ''}`}
+            onClick={handleMapClick}
+          >
+            <circle r={MAP_RADIUS} fill="none" stroke="#292524" strokeWidth={0.6} />
+            <circle r={MAP_RADIUS / 2} fill="none" stroke="#292524" strokeWidth={0.4} strokeDasharray="2 2" />
+            <text x={0} y={-MAP_RADIUS - 3} textAnchor="middle" fontSize={6} fill="#57534e">N</text>
+            <text x={MAP_RADIUS / 2 + 2} y={-2} fontSize={5} fill="#44403c">{km(radius / 2)}</text>
+            <text x={MAP_RADIUS + 2} y={-2} fontSize={5} fill="#44403c">{km(radius)}</text>
+            <path d="M -4 0 H 4 M 0 -4 V 4" stroke="#78716c" strokeWidth={0.8} />
+
+            {landmarks.map(l => {
+              const key = landmarkKey(l);
+              const { x, y } = plot(here, l);
+              const picked = key === origin || key === target || stops.includes(key);
+              return (
+                <circle
+                  key={key}
+                  cx={x}
+                  cy={y}
+                  r={picked || key === hovered ? 4 : 2.5}
+                  fill={dotColour(key)}
+                  fillOpacity={picked ? 1 : 0.7}
+                  className="cursor-pointer"
+                  onClick={(e) => { e.stopPropagation(); onSelect(l); }}
+                  onMouseEnter={() => setHovered(key)}
+                  onMouseLeave={() => setHovered(null)}
+                >
+                  <title>{l.title}</title>
+                </circle>
+              );
+            })}
+          </svg>
+
+          <div className="flex justify-between gap-2">
+            <span className="normal-case line-clamp-1">{hoveredLandmark ? `${hoveredLandmark.title} · ${km(hoveredLandmark.dist)}` : `${here.lat.toFixed(4)}, ${here.lon.toFixed(4)}`}</span>
+            {canRecentre && <span className="shrink-0 text-stone-600">Click to recentre</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlaceMap;
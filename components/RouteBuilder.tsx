@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { WikiArticle } from '../types';
+import { isPlaced, routeLength } from '../services/geo';
+import { landmarkKey } from '../services/wikipediaService';
+import { MAX_ROUTE_STOPS, MIN_ROUTE_STOPS } from '../services/suite';
+
+interface RouteBuilderProps {
+  route: WikiArticle[];
+  isComposed: boolean;
+  isComposing: boolean;
+  isPlaying: boolean;
+  isBouncing: boolean;
+  onChange: (route: WikiArticle[]) => void;
+  onSortByDistance: () => void;
+  onCompose: () => void;
+  onTogglePlay: () => void;
+  onExportMidi: () => void;
+  onBounce: () => void;
+}
+
+const RouteBuilder: React.FC<RouteBuilderProps> = ({
+  route, isComposed, isComposing, isPlaying, isBouncing,
+  onChange, onSortByDistance, onCompose, onTogglePlay, onExportMidi, onBounce
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDrop = (target: number) => {
+    if (dragIndex === null || dragIndex === target) return;
+    const next = [...route];
+    const [moved] = next.splice(dragIndex, 1);
+    next.splice(target, 0, moved);
+    setDragIndex(null);
+    onChange(next);
+  };
+
+  const canCompose = route.length >= MIN_ROUTE_STOPS;
+  const exportClass = "flex-1 text-[9px] mono uppercase text-stone-500 hover:text-stone-200 border border-stone-800 hover:border-stone-600 rounded-full py-1 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col gap-6 z-10">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] mono uppercase text-amber-500 font-bold tracking-widest">
+          Route · {route.length}/{MAX_ROUTE_STOPS} stops · {(routeLength(route.filter(isPlaced)) / 1000).toFixed(2)}km
+        </span>
+        <button
+          onClick={onSortByDistance}
+          disabled={route.length < 3}
+          className="text-[9px] mono px-2 py-1 rounded border border-stone-800 text-stone-500 hover:border-stone-600 hover:text-stone-200 transition-all disabled:opacity-40"
+        >
+          SORT BY WALKING DISTANCE
+        </button>
+      </div>
+
+      {route.length === 0 ? (
+        <p className="text-stone-600 text-[11px] italic text-center">
+          Pick {MIN_ROUTE_STOPS}–{MAX_ROUTE_STOPS} landmarks or sources to build a route.
+        </p>
+      ) : (
+        <ol className="flex flex-col gap-2">
+          {route.map((stop, i) => (
+            <li
+              key={landmarkKey(stop)}
+              draggable
+              onDragStart={() => setDragIndex(i)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(i)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-3 p-3 rounded-xl border cursor-grab active:cursor-grabbing transition-all ${dragIndex === i ? 'border-amber-500 opacity-50' : 'border-stone-800 bg-stone-900/50 hover:border-stone-600'}`}
+            >
+              <span className="text-[10px] mono text-amber-500 w-4 text-right">{i + 1}</span>
+              <span className="text-sm text-stone-300 line-clamp-1 flex-1">{stop.title}</span>
+              <button
+                onClick={() => onChange(route.filter(s => landmarkKey(s) !== landmarkKey(stop)))}
+                className="text-stone-600 hover:text-red-500 text-xs w-5 h-5 flex items-center justify-center"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-col items-center gap-3">
+        {!isComposed ? (
+          <button
+            onClick={onCompose}
+            disabled={!canCompose || isComposing}
+            className="px-12 py-5 bg-stone-100 text-stone-950 rounded-full font-bold hover:bg-amber-500 hover:text-white transition-all transform hover:scale-105 active:scale-95 shadow-2xl disabled:opacity-30 disabled:hover:scale-100 disabled:hover:bg-stone-100 disabled:hover:text-stone-950"
+          >
+            {isComposing ? 'ANALYZING ROUTE...' : 'COMPOSE SUITE'}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onTogglePlay}
+              className={`px-12 py-5 rounded-full font-bold transition-all ${isPlaying ? 'bg-amber-500 text-white' : 'bg-stone-100 text-stone-950 hover:bg-amber-500 hover:text-white'}`}
+            >
+              {isPlaying ? 'STOP SUITE' : 'PLAY SUITE'}
+            </button>
+            <div className="flex gap-2 w-48">
+              <button onClick={onExportMidi} className={exportClass}>MIDI</button>
+              <button onClick={onBounce} disabled={isBouncing} className={exportClass}>{isBouncing ? 'Rendering…' : 'WAV'}</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RouteBuilder;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { WikiArticle } from '../types';
+import { LANDMARK_TYPES, LandmarkType } from '../services/landmarkTypes';
+import { GeoSearchSettings, landmarkKey, LandmarkSort, MAX_RADIUS_M, WIKI_LANGUAGES } from '../services/wikipediaService';
+
+export const RESULT_LIMITS = [10, 15, 25, 50, 100];
+
+const SORTS: { sort: LandmarkSort; label: string }[] = [
+  { sort: 'distance', label: 'Distance' },
+  { sort: 'extract', label: 'Extract length' },
+  { sort: 'semantic', label: 'Meaning' }
+];
+
+interface SearchPanelProps {
+  settings: GeoSearchSettings;
+  onChange: (settings: GeoSearchSettings) => void;
+  /** Candidates for the semantic anchor */
+  landmarks: WikiArticle[];
+  /** `landmarkKey` of the anchor */
+  anchor: string | null;
+  onAnchorChange: (key: string | null) => void;
+  isRanking: boolean;
+}
+
+/**
+ * Geosearch settings: which Wikipedia editions, radius and result count,
+ * Wikidata type filters, and how the list is ordered.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ settings, onChange, landmarks, anchor, onAnchorChange, isRanking }) => {
+  // Dragging the radius only searches once it's let go
+  const [radius, setRadius] = useState(settings.radius);
+  useEffect(() => setRadius(settings.radius), [settings.radius]);
+  const commitRadius = () => { if (radius !== settings.radius) onChange({ ...settings, radius }); };
+
+  const toggleType = (type: LandmarkType) => onChange({
+    ...settings,
+    types: settings.types.includes(type) ? settings.types.filter(t => t !== type) : [...settings.types, type]
+  });
+
+  const selectClass = "bg-stone-950 border border-stone-800 rounded px-1 py-1 text-[9px] mono text-stone-400 focus:border-amber-500 outline-none";
+
+  return (
+    <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-3 text-[9px] mono uppercase text-stone-500">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Wikipedia</span>
+        <select className={selectClass} value={settings.language} onChange={(e) => onChange({ ...settings, language: e.target.value })}>
+          {WIKI_LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+        </select>
+        <span>+</span>
+        <select
+          className={selectClass}
+          value={settings.mergeWith ?? ''}
+          onChange={(e) => onChange({ ...settings, mergeWith: e.target.value || null })}
+          title="Adds this edition's landmarks that the first doesn't have, matched through langlinks"
+        >
+          <option value="">No merge</option>
+          {WIKI_LANGUAGES.filter(l => l.code !== settings.language).map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+        <label className="flex flex-col gap-1">
+          <span>Radius · {(radius / 1000).toFixed(1)} km</span>
+          <input
+            type="range"
+            min={250}
+            max={MAX_RADIUS_M}
+            step={250}
+            className="accent-amber-500"
+            value={radius}
+            onChange={(e) => setRadius(Number(e.target.value))}
+            onPointerUp={commitRadius}
+            onKeyUp={commitRadius}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Results</span>
+          <select className={selectClass} value={settings.limit} onChange={(e) => onChange({ ...settings, limit: Number(e.target.value) })}>
+            {RESULT_LIMITS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(LANDMARK_TYPES) as LandmarkType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-2 py-1 rounded border transition-all ${settings.types.includes(type) ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 hover:border-stone-600'}`}
+          >
+            {LANDMARK_TYPES[type].label}
+          </button>
+        ))}
+      </div>
+      {!!settings.types.length && (
+        <span className="normal-case italic text-stone-600">Only articles whose Wikidata item is one of these.</span>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Sort</span>
+        <select className={selectClass} value={settings.sort} onChange={(e) => onChange({ ...settings, sort: e.target.value as LandmarkSort })}>
+          {SORTS.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+        </select>
+        {settings.sort === 'semantic' && (
+          <select
+            className={`${selectClass} flex-1 min-w-0`}
+            value={anchor ?? ''}
+            onChange={(e) => onAnchorChange(e.target.value || null)}
+            title="Landmarks closest in meaning to this one come first"
+          >
+            <option value="">Closest to…</option>
+            {landmarks.map(l => <option key={landmarkKey(l)} value={landmarkKey(l)}>{l.title}</option>)}
+          </select>
+        )}
+        {isRanking && <span className="text-amber-500 animate-pulse">Ranking…</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { WikiArticle } from '../types';
+import { OfflineMissError } from '../services/cache';
+import { createTextSource } from '../services/sources';
+import { getArticle, searchTitles } from '../services/wikipediaService';
+
+// Typing pauses this long before the edition is asked for suggestions
+const SUGGEST_DELAY_MS = 300;
+
+interface SourcePanelProps {
+  /** Edition searched by title */
+  language: string;
+  onAdd: (source: WikiArticle) => void;
+}
+
+/**
+ * Sources beyond the landmarks nearby: any article in the edition, found by
+ * title, or pasted text. Either is added to the list of sources and can be
+ * picked as an origin, target or route stop like a landmark.
+ */
+const SourcePanel: React.FC<SourcePanelProps> = ({ language, onAdd }) => {
+  const [mode, setMode] = useState<'article' | 'text'>('article');
+  const [search, setSearch] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSuggestions([]);
+    if (mode !== 'article' || !search.trim()) return;
+    let current = true;
+    const timer = setTimeout(() => {
+      searchTitles(language, search.trim())
+        .then(titles => { if (current) setSuggestions(titles); })
+        .catch(err => { if (current) setMessage(err instanceof OfflineMissError ? err.message : 'Title search failed.'); });
+    }, SUGGEST_DELAY_MS);
+    return () => { current = false; clearTimeout(timer); };
+  }, [search, language, mode]);
+
+  const addArticle = async (pick: string) => {
+    setIsAdding(true);
+    setMessage(null);
+    try {
+      const article = await getArticle(language, pick);
+      if (!article) return setMessage(`No article "${pick}".`);
+      onAdd(article);
+      setSearch('');
+    } catch (err) {
+      setMessage(err instanceof OfflineMissError ? err.message : 'The article could not be read.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const addText = () => {
+    onAdd(createTextSource(text, title));
+    setTitle('');
+    setText('');
+  };
+
+  const inputClass = "bg-stone-950 border border-stone-800 rounded px-2 py-1 text-xs text-stone-200 focus:border-amber-500 outline-none";
+  const tabClass = (active: boolean) => `px-2 py-1 rounded border transition-all ${active ? 'border-amber-500 text-amber-500 bg-amber-500/10' : 'border-stone-800 hover:border-stone-600'}`;
+
+  return (
+    <div className="bg-stone-900/60 p-4 rounded-xl border border-stone-800 flex flex-col gap-3 text-[9px] mono uppercase text-stone-500">
+      <div className="flex items-center gap-2">
+        <span>Add</span>
+        <button onClick={() => setMode('article')} className={tabClass(mode === 'article')}>Any article</button>
+        <button onClick={() => setMode('text')} className={tabClass(mode === 'text')}>Text</button>
+      </div>
+
+      {mode === 'article' ? (
+        <div className="flex flex-col gap-1">
+          <input
+            className={inputClass}
+            placeholder={`Search ${language}.wikipedia.org, e.g. Hagia Sophia`}
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setMessage(null); }}
+            onKeyDown={(e) => { if (e.key === 'Enter' && search.trim() && !isAdding) addArticle(suggestions[0] ?? search.trim()); }}
+          />
+          {suggestions.map(s => (
+            <button
+              key={s}
+              onClick={() => addArticle(s)}
+              disabled={isAdding}
+              className="text-left normal-case text-xs text-stone-400 hover:text-amber-500 px-2 py-0.5 disabled:opacity-40"
+            >
+              + {s}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <input className={inputClass} placeholder="Title (optional)" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <textarea
+            className={`${inputClass} min-h-24 normal-case`}
+            placeholder="Paste a description, e.g. heritage survey notes. == Heading == lines split it into movements."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <button
+            onClick={addText}
+            disabled={!text.trim()}
+            className="self-end px-3 py-1 rounded border border-stone-800 hover:border-amber-500 hover:text-amber-500 transition-all disabled:opacity-40"
+          >
+            Add text
+          </button>
+        </div>
+      )}
+
+      {isAdding && <span className="text-amber-500 animate-pulse">Reading…</span>}
+      {message && <span className="normal-case text-red-400">{message}</span>}
+    </div>
+  );
+};
+
+export default SourcePanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Location, WikiArticle } from '../types';
+
+export const REPLAY_SPEEDS = [1, 4, 16];
+
+interface WalkPanelProps {
+  /** What the walk is following, or null when not walking */
+  source: string | null;
+  position: Location | null;
+  landmark: WikiArticle | null;
+  replaySpeed: number;
+  onReplaySpeedChange: (speed: number) => void;
+  onStartLive: () => void;
+  onLoadGpx: (file: File) => void;
+  onStop: () => void;
+}
+
+/**
+ * Walking mode controls: follow live GPS or replay a recorded GPX track,
+ * and show which landmark is playing.
+ */
+const WalkPanel: React.FC<WalkPanelProps> = ({
+  source, position, landmark, replaySpeed, onReplaySpeedChange, onStartLive, onLoadGpx, onStop
+}) => {
+  const buttonClass = "text-[9px] mono px-2 py-1 rounded border border-stone-800 text-stone-500 hover:border-stone-600 hover:text-stone-300 transition-all uppercase";
+
+  if (!source) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] mono text-stone-600 uppercase">Walk</span>
+        <button onClick={onStartLive} className={buttonClass}>Live GPS</button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Replay GPX
+          <input
+            type="file"
+            accept=".gpx,application/gpx+xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadGpx(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <select
+          className="bg-stone-950 border border-stone-800 rounded px-1 py-1 text-[9px] mono text-stone-400 focus:border-amber-500 outline-none"
+          value={replaySpeed}
+          onChange={(e) => onReplaySpeedChange(Number(e.target.value))}
+          title="GPX replay speed"
+        >
+          {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-500/5 p-4 rounded-xl border border-amber-500/40 flex flex-col gap-2 animate-in fade-in slide-in-from-top-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] mono text-amber-500 uppercase tracking-widest">Walking · {source}</span>
+        <button onClick={onStop} className="text-[9px] mono px-2 py-1 rounded border border-red-900/50 text-red-500 hover:bg-red-600 hover:text-white transition-all uppercase">Stop</button>
+      </div>
+      <span className="text-[9px] mono text-stone-500">
+        {position ? `${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}` : 'Waiting for a position…'}
+      </span>
+      <span className="text-xs text-stone-300 line-clamp-1">
+        {landmark ? `♪ ${landmark.title}` : 'No landmark nearby yet'}
+      </span>
+    </div>
+  );
+};
+
+export default WalkPanel;
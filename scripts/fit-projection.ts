@@ -0,0 +1,111 @@
+/**
+ * Fits public/projection.json over a corpus of landmarks from cities
+ * around the world, embedded as the app embeds them, and writes the next
+ * revision in place. Needs Wikipedia and the Hugging Face hub:
+ *
+ *   npm run fit-projection
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { pipeline } from '@xenova/transformers';
+import { DEFAULT_MODEL_ID } from '../services/embeddingService';
+import { CorpusEntry, fitProjection, Projection, PROJECTION_SCHEMA } from '../services/projection';
+
+const ASSET = new URL('../public/projection.json', import.meta.url);
+const API = 'https://en.wikipedia.org/w/api.php';
+// Wikimedia asks scripts to say who they are
+const HEADERS = { 'User-Agent': 'wikiphonic-projection-fit (offline fit of public/projection.json)' };
+
+// Old towns and new ones, sacred and secular, on every continent, so no axis is fitted to one kind of place
+const CENTRES: [string, number, number][] = [
+  ['London', 51.5074, -0.1278], ['Paris', 48.8566, 2.3522], ['Rome', 41.8986, 12.4769], ['Athens', 37.9715, 23.7257],
+  ['Istanbul', 41.0082, 28.9784], ['Vienna', 48.2082, 16.3738], ['Kraków', 50.0614, 19.9366], ['Edinburgh', 55.9533, -3.1883],
+  ['Seville', 37.3891, -5.9845], ['Reykjavík', 64.1466, -21.9426], ['Cairo', 30.0444, 31.2357], ['Marrakesh', 31.6295, -7.9811],
+  ['Nairobi', -1.2864, 36.8172], ['Cape Town', -33.9249, 18.4241], ['Jerusalem', 31.7767, 35.2345], ['Dubai', 25.2048, 55.2708],
+  ['Delhi', 28.6139, 77.209], ['Varanasi', 25.3176, 82.9739], ['Kathmandu', 27.7172, 85.324], ['Bangkok', 13.7563, 100.5018],
+  ['Singapore', 1.2903, 103.8519], ['Beijing', 39.9042, 116.4074], ['Shanghai', 31.2304, 121.4737], ['Kyoto', 35.0116, 135.7681],
+  ['Tokyo', 35.6762, 139.6503], ['Seoul', 37.5665, 126.978], ['Sydney', -33.8688, 151.2093], ['Auckland', -36.8485, 174.7633],
+  ['New York', 40.7128, -74.006], ['Chicago', 41.8781, -87.6298], ['San Francisco', 37.7749, -122.4194], ['New Orleans', 29.9511, -90.0715],
+  ['Mexico City', 19.4326, -99.1332], ['Havana', 23.1136, -82.3666], ['Cusco', -13.532, -71.9675], ['Rio de Janeiro', -22.9068, -43.1729],
+  ['Buenos Aires', -34.6037, -58.3816], ['Montreal', 45.5017, -73.5673], ['Salt Lake City', 40.7608, -111.891], ['Yellowknife', 62.454, -114.3718]
+];
+const PER_CENTRE = 50;
+const RADIUS_M = 10000;
+const EXTRACT_BATCH = 20;
+// Directions are stored to this many decimals, enough for readings and a tenth of the size
+const DECIMALS = 6;
+
+interface Page {
+  pageid: number;
+  title: string;
+  extract?: string;
+}
+
+const api = async (params: Record<string, string>) => {
+  const url = `${API}?${new URLSearchParams({ ...params, format: 'json' })}`;
+  const response = await fetch(url, { headers: HEADERS });
+  if (!response.ok) throw new Error(`Wikipedia API request failed (${response.status})`);
+  const data = await response.json();
+  if (data.error) throw new Error(`Wikipedia API error: ${data.error.info ?? data.error.code}`);
+  return data;
+};
+
+const landmarksAround = async (lat: number, lon: number): Promise<Page[]> => {
+  const data = await api({ action: 'query', list: 'geosearch', gscoord: `${lat}|${lon}`, gsradius: `${RADIUS_M}`, gslimit: `${PER_CENTRE}` });
+  return data.query?.geosearch ?? [];
+};
+
+// Intros, following `continue` until every page in the batch has one
+const withExtracts = async (pages: Page[]): Promise<Page[]> => {
+  const byId = new Map(pages.map(p => [p.pageid, { ...p }]));
+  for (let i = 0; i < pages.length; i += EXTRACT_BATCH) {
+    const ids = pages.slice(i, i + EXTRACT_BATCH).map(p => p.pageid).join('|');
+    let next: Record<string, string> | undefined = {};
+    while (next) {
+      const data = await api({ action: 'query', prop: 'extracts', exintro: '1', explaintext: '1', exlimit: 'max', pageids: ids, ...next });
+      Object.values<Page>(data.query?.pages ?? {}).forEach(page => {
+        if (page.extract) byId.get(page.pageid)!.extract = page.extract;
+      });
+      next = data.continue;
+    }
+  }
+  return [...byId.values()];
+};
+
+// The text the app embeds for a landmark: its intro, or its title when the intro says next to nothing
+const landmarkText = (page: Page) => page.extract && page.extract.length > 30 ? page.extract : page.title;
+
+const rounded = (values: number[]) => values.map(v => Number(v.toFixed(DECIMALS)));
+
+const main = async () => {
+  const base: Projection = JSON.parse(await readFile(ASSET, 'utf8'));
+  if (base.schema !== PROJECTION_SCHEMA) throw new Error(`Projection schema ${base.schema} is not supported (expected ${PROJECTION_SCHEMA})`);
+  if (base.model !== DEFAULT_MODEL_ID) throw new Error(`The asset is for ${base.model}, but the app embeds English with ${DEFAULT_MODEL_ID}`);
+
+  const pages = new Map<number, Page>();
+  for (const [name, lat, lon] of CENTRES) {
+    const found = await landmarksAround(lat, lon);
+    found.forEach(p => pages.set(p.pageid, p));
+    console.log(`${name}: ${found.length} landmarks`);
+  }
+  const corpusPages = await withExtracts([...pages.values()]);
+
+  console.log(`Embedding ${corpusPages.length} landmarks with ${base.model}…`);
+  const extractor = await pipeline('feature-extraction', base.model);
+  // Mean-pooled and unnormalised, as the embedding worker returns them
+  const embed = async (text: string) => new Float32Array((await extractor(text, { pooling: 'mean', normalize: false })).data as Float32Array);
+  const corpus: CorpusEntry[] = [];
+  for (const page of corpusPages) corpus.push({ title: page.title, embedding: await embed(landmarkText(page)) });
+
+  const fitted = await fitProjection(base, corpus, embed);
+  const asset: Projection = {
+    ...fitted,
+    axes: fitted.axes.map(axis => ({ ...axis, direction: axis.direction && rounded(axis.direction) }))
+  };
+  await writeFile(ASSET, `${JSON.stringify(asset, null, 2)}\n`);
+  console.log(`Wrote projection v${asset.version}: ${asset.axes.length} axes over ${asset.corpusSize} landmarks`);
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+import { EmbedOptions, getEmbeddings, getModelId, MODEL_MAX_TOKENS } from './embeddingService';
+import { deriveDNA, DNAOverrides } from './musicDNA';
+import { Projection } from './projection';
+import { createScoreWriter, Score } from './score';
+
+export interface ArticleSection {
+  title: string;
+  text: string;
+}
+
+export interface Movement {
+  title: string;
+  embedding: Float32Array;
+  /** Length of the section it was read from */
+  words: number;
+}
+
+export interface ArticleOptions {
+  overrides?: DNAOverrides;
+  projection?: Projection | null;
+}
+
+export const MAX_MOVEMENTS = 8;
+
+// Headings over lists and citations rather than prose about the place, in the offered editions
+const SKIPPED_SECTIONS = new Set([
+  'see also', 'references', 'notes', 'external links', 'further reading', 'bibliography', 'sources', 'citations', 'footnotes', 'gallery',
+  'voir aussi', 'références', 'notes et références', 'liens externes', 'bibliographie', 'articles connexes',
+  'siehe auch', 'literatur', 'weblinks', 'einzelnachweise', 'anmerkungen', 'quellen',
+  'véase también', 'referencias', 'enlaces externos', 'bibliografía', 'notas',
+  'voci correlate', 'note', 'collegamenti esterni', 'bibliografia', 'altri progetti'
+]);
+const MIN_SECTION_WORDS = 20;
+// Word pieces per word, leaving headroom for the model's special tokens
+const TOKENS_PER_WORD = 1.5;
+// A movement's length follows its section's share of the longest one
+const MIN_BARS = 4;
+const MAX_BARS = 12;
+
+const HEADING = /^(={2,6})\s*(.*?)\s*\1\s*$/;
+// Chinese and Japanese run words together, so each of their characters counts as one; the tokenizers give it about a word piece
+const WORD = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+// Sentence ends: Latin stops before a space, CJK full stops with or without one
+const SENTENCE_BREAK = /(?<=[.!?])\s+|(?<=[。！？])\s*/;
+
+const words = (text: string) => [...text.matchAll(WORD)];
+
+/**
+ * SECTIONS: Splits a full article at its top-level headings, the lead
+ * becoming `introTitle`. Subsections stay in their parent; reference and
+ * link sections and stubs too short to say anything are dropped.
+ */
+export const splitSections = (text: string, introTitle = 'Introduction'): ArticleSection[] => {
+  const sections: ArticleSection[] = [{ title: introTitle, text: '' }];
+  text.split('\n').forEach(line => {
+    const heading = line.match(HEADING);
+    if (!heading) sections[sections.length - 1].text += `${line}\n`;
+    else if (heading[1].length === 2) sections.push({ title: heading[2], text: '' });
+  });
+  return sections
+    .map(s => ({ ...s, text: s.text.trim() }))
+    .filter(s => !SKIPPED_SECTIONS.has(s.title.toLowerCase()) && words(s.text).length >= MIN_SECTION_WORDS);
+};
+
+/** The longest sections up to `max`, kept in article order. */
+export const pickSections = (sections: ArticleSection[], max = MAX_MOVEMENTS): ArticleSection[] => {
+  const kept = new Set([...sections].sort((a, b) => words(b.text).length - words(a.text).length).slice(0, max));
+  return sections.filter(s => kept.has(s));
+};
+
+/**
+ * Cuts text into chunks of at most `maxWords`, breaking between sentences
+ * where it can and inside a sentence only when one is longer than a chunk.
+ * Pieces are cut from the text as written, so unspaced scripts stay unspaced.
+ */
+export const chunkText = (text: string, maxWords: number): string[] => {
+  const chunks: { parts: string[]; size: number }[] = [{ parts: [], size: 0 }];
+  text.split(SENTENCE_BREAK).forEach(sentence => {
+    const all = words(sentence);
+    for (let i = 0; i < all.length; i += maxWords) {
+      const piece = all.slice(i, i + maxWords);
+      const last = piece[piece.length - 1];
+      if (chunks[chunks.length - 1].size + piece.length > maxWords) chunks.push({ parts: [], size: 0 });
+      const chunk = chunks[chunks.length - 1];
+      chunk.parts.push(sentence.slice(piece[0].index, last.index + last[0].length));
+      chunk.size += piece.length;
+    }
+  });
+  return chunks.filter(c => c.size).map(c => c.parts.join(' '));
+};
+
+/**
+ * Embeds every section in one batched request. Each chunk fits the current
+ * model's input, and a section's vector is the word-weighted mean of its
+ * chunks'.
+ */
+export const embedSections = async (sections: ArticleSection[], options?: EmbedOptions): Promise<Movement[]> => {
+  const maxWords = Math.floor((MODEL_MAX_TOKENS[getModelId()] ?? 128) / TOKENS_PER_WORD);
+  const chunked = sections.map(s => chunkText(s.text, maxWords));
+  const vectors = await getEmbeddings(chunked.flat(), options);
+
+  let next = 0;
+  return sections.map((section, i) => {
+    const parts = vectors.slice(next, next += chunked[i].length);
+    const weights = chunked[i].map(c => words(c).length);
+    const total = weights.reduce((a, b) => a + b, 0);
+    const embedding = new Float32Array(parts[0].length);
+    parts.forEach((v, k) => v.forEach((x, d) => { embedding[d] += x * weights[k] / total; }));
+    return { title: section.title, embedding, words: total };
+  });
+};
+
+/**
+ * ARTICLE: One movement per section, each read from its own vector and
+ * closing on a cadence in its own key, named after the section heading.
+ */
+export const composeArticle = (movements: Movement[], options: ArticleOptions = {}): Score => {
+  const { overrides, projection = null } = options;
+  const writer = createScoreWriter(overrides, projection);
+  const longest = Math.max(...movements.map(m => m.words));
+
+  movements.forEach(movement => {
+    writer.markSection(movement.title);
+    const bars = MIN_BARS + Math.round((MAX_BARS - MIN_BARS) * movement.words / longest);
+    for (let b = 0; b < bars; b++) writer.writeBar(movement.embedding);
+    writer.writeCadence(deriveDNA(movement.embedding, projection));
+  });
+
+  return writer.finish();
+};
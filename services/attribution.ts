@@ -0,0 +1,205 @@
+import { TokenEmbeddings } from './embeddingService';
+import { VOICE_KEYS, VoiceKey, voiceSlice } from './musicDNA';
+import { Projection } from './projection';
+
+export type DriverId = 'meter' | 'articulation' | 'mood' | VoiceKey;
+
+export const DRIVER_IDS: DriverId[] = ['meter', 'articulation', 'mood', ...VOICE_KEYS];
+
+/** A DNA field the engine reads as a straight line through embedding space. */
+export interface Driver {
+  id: DriverId;
+  /** What it reads: a raw dimension, a slice, or a projection axis */
+  reads: string;
+  /** The musical result at each end */
+  negative: string;
+  positive: string;
+  weights: Float32Array;
+}
+
+export interface AttributedWord {
+  text: string;
+  /** Character span in the source text; -1 when the tokenizer's spelling couldn't be found there */
+  start: number;
+  end: number;
+  /** Whether it has a letter or digit in it, as opposed to punctuation */
+  isWord: boolean;
+  /** Share of the pooled vector this word adds, dimension by dimension */
+  vector: Float32Array;
+  /** How far it pushes each driver towards its positive end */
+  drivers: Record<DriverId, number>;
+}
+
+export interface Attribution {
+  words: AttributedWord[];
+  drivers: Driver[];
+  /** The pooled embedding the contributions add up to, with the model's marker tokens */
+  pooled: Float32Array;
+  /** What the drivers were resolved against, so the DNA can be read the same way */
+  projection: Projection | null;
+  /** Characters of the source text the model read before truncating it */
+  readUpTo: number;
+}
+
+// Each driver's ends, as the DNA reads them in musicDNA.ts
+const POLES: Record<DriverId, [string, string]> = {
+  meter: ['3/4', '5/4'],
+  articulation: ['staccato', 'legato'],
+  mood: ['sombre', 'joyful'],
+  bass: ['lower', 'higher'],
+  tenor: ['lower', 'higher'],
+  alto: ['lower', 'higher'],
+  soprano: ['lower', 'higher']
+};
+
+// Raw dimensions the DNA falls back to without a projection axis
+const RAW_DIMS: Record<'meter' | 'articulation' | 'mood', number> = { meter: 0, articulation: 1, mood: 10 };
+const AXIS_FOR: Record<'meter' | 'articulation' | 'mood', { id: string; sign: number }> = {
+  meter: { id: 'energy', sign: 1 },
+  articulation: { id: 'era', sign: -1 },
+  mood: { id: 'mood', sign: 1 }
+};
+
+const axisWeights = (projection: Projection | null, id: string, dims: number, sign = 1) => {
+  const axis = projection?.dims === dims ? projection.axes.find(a => a.id === id) : undefined;
+  return axis?.direction ? Float32Array.from(axis.direction, v => v * sign) : null;
+};
+
+/**
+ * DRIVERS: The direction each field is read along for vectors of `dims`,
+ * matching `deriveDNA`: the projection's axis when it has one, otherwise
+ * the raw dimension or the mean of the voice's slice.
+ */
+export const resolveDrivers = (dims: number, projection: Projection | null): Driver[] =>
+  DRIVER_IDS.map(id => {
+    const [negative, positive] = POLES[id];
+    if (id === 'meter' || id === 'articulation' || id === 'mood') {
+      const { id: axis, sign } = AXIS_FOR[id];
+      const projected = axisWeights(projection, axis, dims, sign);
+      if (projected) return { id, reads: sign < 0 ? `${axis} axis, reversed` : `${axis} axis`, negative, positive, weights: projected };
+      const weights = new Float32Array(dims);
+      weights[RAW_DIMS[id]] = 1;
+      return { id, reads: `dim ${RAW_DIMS[id]}`, negative, positive, weights };
+    }
+    const pc = `pc${VOICE_KEYS.indexOf(id) + 1}`;
+    const projected = axisWeights(projection, pc, dims);
+    if (projected) return { id, reads: `${pc} axis`, negative, positive, weights: projected };
+    const [from, to] = voiceSlice(id, dims);
+    const weights = new Float32Array(dims);
+    weights.fill(1 / (to - from), from, to);
+    return { id, reads: `dims ${from}–${to - 1}`, negative, positive, weights };
+  });
+
+// Word pieces joined back into the words they were cut from, markers left out
+const mergeTokens = ({ tokens, special }: TokenEmbeddings) => {
+  // SentencePiece marks the start of a word; WordPiece marks the pieces that continue one
+  const sentencePiece = tokens.some(t => t.startsWith('▁'));
+  const words: { text: string; tokens: number[] }[] = [];
+  tokens.forEach((token, i) => {
+    if (special[i]) return;
+    const continues = sentencePiece ? !token.startsWith('▁') : token.startsWith('##');
+    const piece = sentencePiece ? token.replace(/^▁/, '') : token.replace(/^##/, '');
+    const last = words[words.length - 1];
+    if (last && (continues || !last.text)) {
+      last.text += piece;
+      last.tokens.push(i);
+    } else {
+      words.push({ text: piece, tokens: [i] });
+    }
+  });
+  return words.filter(w => w.text);
+};
+
+// Lowercased and accent-stripped, as the uncased tokenizer sees it, with each folded character's index in the original
+const fold = (text: string) => {
+  let folded = '';
+  const at: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const chars = text[i].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    folded += chars;
+    for (let k = 0; k < chars.length; k++) at.push(i);
+  }
+  return { folded, at };
+};
+
+// Words pushing no voice more than this share of its strongest push stay uncoloured
+const MIN_STRENGTH = 0.2;
+
+// How far past the last match a word may be found; beyond it the word is more likely a repeat further on
+const ALIGN_WINDOW = 80;
+
+/**
+ * ATTRIBUTION: Mean pooling is a plain sum, so each token adds exactly
+ * 1/T of its own vector to the embedding, and each word the sum of its
+ * pieces. A driver being linear, a word's push on it is that share
+ * dotted with the driver's direction. Only the model's [CLS]/[SEP]
+ * markers carry the rest.
+ */
+export const attributeTokens = (text: string, embeddings: TokenEmbeddings, projection: Projection | null = null): Attribution => {
+  const count = embeddings.vectors.length;
+  const dims = embeddings.vectors[0].length;
+  const drivers = resolveDrivers(dims, projection);
+  const pooled = new Float32Array(dims);
+  embeddings.vectors.forEach(v => v.forEach((x, d) => { pooled[d] += x / count; }));
+
+  const { folded, at } = fold(text);
+  let cursor = 0;
+  const words = mergeTokens(embeddings).map(({ text: spelling, tokens }): AttributedWord => {
+    const vector = new Float32Array(dims);
+    tokens.forEach(t => embeddings.vectors[t].forEach((x, d) => { vector[d] += x / count; }));
+    const contributions = Object.fromEntries(drivers.map(driver => {
+      let sum = 0;
+      for (let d = 0; d < dims; d++) sum += vector[d] * driver.weights[d];
+      return [driver.id, sum];
+    })) as Record<DriverId, number>;
+
+    const target = fold(spelling).folded;
+    const found = folded.indexOf(target, cursor);
+    const aligned = found >= 0 && found - cursor <= ALIGN_WINDOW;
+    if (aligned) cursor = found + target.length;
+    return {
+      text: spelling,
+      start: aligned ? at[found] : -1,
+      end: aligned ? at[found + target.length - 1] + 1 : -1,
+      isWord: /[\p{L}\p{N}]/u.test(spelling),
+      vector,
+      drivers: contributions
+    };
+  });
+
+  return { words, drivers, pooled, projection, readUpTo: cursor ? at[cursor - 1] + 1 : 0 };
+};
+
+/** The words pushing a driver hardest each way, strongest first. */
+export const topWords = (attribution: Attribution, driver: DriverId, count = 5) => {
+  const ranked = attribution.words.filter(w => w.isWord).sort((a, b) => b.drivers[driver] - a.drivers[driver]);
+  return {
+    positive: ranked.filter(w => w.drivers[driver] > 0).slice(0, count),
+    negative: ranked.filter(w => w.drivers[driver] < 0).reverse().slice(0, count)
+  };
+};
+
+/**
+ * The voice each word pushes hardest, relative to the strongest push on
+ * that voice, with that strength 0..1. Null for words that barely move any.
+ */
+export const dominantVoices = (attribution: Attribution): ({ voice: VoiceKey; strength: number } | null)[] => {
+  const peaks = VOICE_KEYS.map(voice => Math.max(...attribution.words.map(w => Math.abs(w.drivers[voice]))) || 1);
+  return attribution.words.map(word => {
+    const strengths = VOICE_KEYS.map((voice, i) => Math.abs(word.drivers[voice]) / peaks[i]);
+    const strongest = strengths.indexOf(Math.max(...strengths));
+    return strengths[strongest] >= MIN_STRENGTH ? { voice: VOICE_KEYS[strongest], strength: strengths[strongest] } : null;
+  });
+};
+
+/**
+ * The words behind one dimension of the pooled vector, as a note reading
+ * it sounds: those pushing it the way it went, strongest first.
+ */
+export const wordsForDim = (attribution: Attribution, dim: number, count = 3) => {
+  const sign = Math.sign(attribution.pooled[dim]) || 1;
+  return attribution.words
+    .filter(w => w.isWord && w.vector[dim] * sign > 0)
+    .sort((a, b) => (b.vector[dim] - a.vector[dim]) * sign)
+    .slice(0, count);
+};
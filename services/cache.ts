@@ -0,0 +1,112 @@
+const DB_NAME = 'wikiphonic-cache';
+const DB_VERSION = 2;
+const OFFLINE_KEY = 'wikiphonic.offline';
+
+export type CacheStore = 'geosearch' | 'extracts' | 'wikidata' | 'embeddings';
+export const CACHE_STORES: CacheStore[] = ['geosearch', 'extracts', 'wikidata', 'embeddings'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// LIMITS: Landmarks come and go, articles get edited, embeddings of the same text never change
+export const CACHE_LIMITS: Record<CacheStore, { ttlMs: number; maxEntries: number }> = {
+  geosearch: { ttlMs: 7 * DAY_MS, maxEntries: 500 },
+  extracts: { ttlMs: 30 * DAY_MS, maxEntries: 3000 },
+  wikidata: { ttlMs: 30 * DAY_MS, maxEntries: 5000 },
+  embeddings: { ttlMs: Infinity, maxEntries: 5000 }
+};
+
+interface CacheRecord<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+/** Raised in offline mode when something was never cached. */
+export class OfflineMissError extends Error {
+  constructor(what: string) {
+    super(`Offline, and ${what} is not cached`);
+    this.name = 'OfflineMissError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      CACHE_STORES.forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Storage is best-effort: private browsing or a full disk falls back to the network
+const quietly = async <T>(fallback: T, task: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+  try {
+    return await task(await openDb());
+  } catch (err) {
+    console.warn('Cache unavailable:', err);
+    return fallback;
+  }
+};
+
+export const isOffline = () => localStorage.getItem(OFFLINE_KEY) === '1';
+
+export const setOffline = (offline: boolean) => {
+  if (offline) localStorage.setItem(OFFLINE_KEY, '1');
+  else localStorage.removeItem(OFFLINE_KEY);
+};
+
+/**
+ * Cached value for `key`. Entries past their TTL count as missing, except
+ * offline, where anything is better than nothing.
+ */
+export const cacheGet = <T>(store: CacheStore, key: string): Promise<T | undefined> =>
+  quietly(undefined, async db => {
+    const record = await settle<CacheRecord<T> | undefined>(db.transaction(store).objectStore(store).get(key));
+    if (!record) return undefined;
+    const fresh = Date.now() - record.storedAt <= CACHE_LIMITS[store].ttlMs;
+    return fresh || isOffline() ? record.value : undefined;
+  });
+
+/** Stores a value, then evicts the oldest entries beyond the store's limit. */
+export const cachePut = <T>(store: CacheStore, key: string, value: T): Promise<void> =>
+  quietly(undefined, async db => {
+    const objects = db.transaction(store, 'readwrite').objectStore(store);
+    await settle(objects.put({ key, value, storedAt: Date.now() } satisfies CacheRecord<T>));
+
+    const excess = (await settle(objects.count())) - CACHE_LIMITS[store].maxEntries;
+    if (excess <= 0) return;
+    const oldest = await settle(objects.index('storedAt').getAllKeys(null, excess));
+    await Promise.all(oldest.map(k => settle(objects.delete(k))));
+  });
+
+/** Entry counts per store, for the status panel. */
+export const cacheStats = (): Promise<Record<CacheStore, number>> =>
+  quietly({ geosearch: 0, extracts: 0, wikidata: 0, embeddings: 0 }, async db => {
+    const counts = await Promise.all(CACHE_STORES.map(s => settle(db.transaction(s).objectStore(s).count())));
+    return Object.fromEntries(CACHE_STORES.map((s, i) => [s, counts[i]])) as Record<CacheStore, number>;
+  });
+
+export const clearCache = (): Promise<void> =>
+  quietly(undefined, async db => {
+    await Promise.all(CACHE_STORES.map(s => settle(db.transaction(s, 'readwrite').objectStore(s).clear())));
+  });
+
+/** Hex SHA-256 of a text, for keying embeddings without storing the text twice. */
+export const hashText = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
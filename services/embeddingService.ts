@@ -1,34 +1,323 @@
+import { cacheGet, cachePut, hashText } from './cache';
+import type { WorkerRequest, WorkerResponse } from './embeddingWorker';
 
-import { pipeline } from '@xenova/transformers';
+// English-only, 384 dimensions
+export const DEFAULT_MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+// Cross-lingual: the same landmark described in French or German lands near its English description. 768 dimensions
+export const MULTILINGUAL_MODEL_ID = 'Xenova/paraphrase-multilingual-mpnet-base-v2';
 
-let embedder: any = null;
+// Longest input each model reads, in word pieces; anything beyond is truncated
+export const MODEL_MAX_TOKENS: Record<string, number> = {
+  [DEFAULT_MODEL_ID]: 256,
+  [MULTILINGUAL_MODEL_ID]: 128
+};
 
-export const initModel = async (onProgress?: (progress: number) => void) => {
-  if (embedder) return;
-  
-  // Feature extraction pipeline with the requested model
-  embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2', {
-    progress_callback: (data: any) => {
-      if (data.status === 'progress' && onProgress) {
-        onProgress(data.progress);
-      }
+// Texts per forward pass; bigger batches pad more and hold the worker longer
+const BATCH_SIZE = 16;
+
+/** The model for searching these Wikipedia editions: the English one only when every edition is English. */
+export const modelForLanguages = (languages: string[]) =>
+  languages.every(l => l === 'en') ? DEFAULT_MODEL_ID : MULTILINGUAL_MODEL_ID;
+
+/** Rejects requests that were aborted, or whose model was switched away from. */
+export class EmbeddingCancelledError extends Error {
+  constructor() {
+    super('Embedding request cancelled');
+    this.name = 'EmbeddingCancelledError';
+  }
+}
+
+export interface EmbedOptions {
+  /** Aborting drops the request from the queue, or discards its result if it's already running */
+  signal?: AbortSignal;
+}
+
+/** Per-token vectors of one text, before pooling; their mean is `getEmbedding`'s vector. */
+export interface TokenEmbeddings {
+  /** Word pieces as the tokenizer wrote them, e.g. '##ral' or '▁cath' */
+  tokens: string[];
+  /** Which tokens are the model's markers ([CLS], </s>…) rather than text */
+  special: boolean[];
+  vectors: Float32Array[];
+}
+
+type JobResult = Float32Array | TokenEmbeddings;
+
+interface Job {
+  text: string;
+  model: string;
+  /** Wants per-token vectors rather than a pooled one */
+  tokens: boolean;
+  settled: boolean;
+  resolve: (result: JobResult) => void;
+  reject: (err: Error) => void;
+  /** Stops listening for the request's abort once its last job settles */
+  release: () => void;
+}
+
+interface ModelLoad {
+  ready: Promise<void>;
+  resolve: () => void;
+  reject: (err: Error) => void;
+  listeners: Set<(progress: number) => void>;
+}
+
+let modelId = DEFAULT_MODEL_ID;
+let loadedModel: string | null = null;
+const loads = new Map<string, ModelLoad>();
+// QUEUE: Waiting jobs, and the batch the worker is running
+const queue: Job[] = [];
+let running: { id: number; jobs: Job[] } | null = null;
+let nextBatch = 0;
+const queueListeners = new Set<(pending: number) => void>();
+
+let worker: Worker | null = null;
+
+const send = (message: WorkerRequest) => {
+  if (!worker) {
+    worker = new Worker(new URL('./embeddingWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => receive(data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      crash(new Error(e.message || 'The embedding worker failed'));
+    };
+    worker.onmessageerror = () => crash(new Error('The embedding worker sent a message that could not be read'));
+  }
+  worker.postMessage(message);
+};
+
+const finish = (job: Job, outcome: JobResult | Error) => {
+  if (job.settled) return;
+  job.settled = true;
+  if (outcome instanceof Error) job.reject(outcome);
+  else job.resolve(outcome);
+  job.release();
+};
+
+/**
+ * CRASH: The worker failed outside any one job, e.g. its module didn't
+ * load. Every load and job waiting on it is rejected, and the next
+ * request starts a fresh worker.
+ */
+const crash = (err: Error) => {
+  worker?.terminate();
+  worker = null;
+  loadedModel = null;
+  loads.forEach(load => load.reject(err));
+  loads.clear();
+  const jobs = [...queue.splice(0), ...running?.jobs ?? []];
+  running = null;
+  jobs.forEach(job => finish(job, err));
+  notify();
+};
+
+const notify = () => {
+  const pending = queue.length + (running?.jobs.length ?? 0);
+  queueListeners.forEach(listener => listener(pending));
+};
+
+// Sends the next batch: the oldest job and up to BATCH_SIZE - 1 more of the same kind; token requests go alone
+const pump = () => {
+  if (!running && queue.length) {
+    const { model, tokens } = queue[0];
+    const jobs: Job[] = [];
+    for (let i = 0; i < queue.length && jobs.length < (tokens ? 1 : BATCH_SIZE);) {
+      if (queue[i].model === model && queue[i].tokens === tokens) jobs.push(...queue.splice(i, 1));
+      else i++;
     }
-  });
+    running = { id: nextBatch++, jobs };
+    send(tokens
+      ? { type: 'tokens', id: running.id, model, text: jobs[0].text }
+      : { type: 'embed', id: running.id, model, texts: jobs.map(j => j.text) });
+  }
+  notify();
+};
+
+const receive = (message: WorkerResponse) => {
+  switch (message.type) {
+    case 'progress':
+      loads.get(message.model)?.listeners.forEach(listener => listener(message.progress));
+      return;
+    case 'loaded':
+      loadedModel = message.model;
+      loads.get(message.model)?.resolve();
+      loads.delete(message.model);
+      return;
+    case 'embedded':
+      if (running?.id !== message.id) return;
+      running.jobs.forEach((job, i) => finish(job, message.vectors[i]));
+      running = null;
+      pump();
+      return;
+    case 'tokens':
+      if (running?.id !== message.id) return;
+      finish(running.jobs[0], { tokens: message.tokens, special: message.special, vectors: message.vectors });
+      running = null;
+      pump();
+      return;
+    case 'failed':
+      if (message.id === undefined) {
+        loads.get(message.model)?.reject(new Error(message.message));
+        loads.delete(message.model);
+      } else if (running?.id === message.id) {
+        running.jobs.forEach(job => finish(job, new Error(message.message)));
+        running = null;
+        pump();
+      }
+  }
 };
 
+// Queues texts for the worker; requests made in the same tick share a batch
+const enqueue = <T extends JobResult>(texts: string[], model: string, signal?: AbortSignal, tokens = false): Promise<T[]> => {
+  if (!texts.length) return Promise.resolve([]);
+  const jobs: Job[] = [];
+  const abort = () => {
+    jobs.forEach(job => {
+      const queued = queue.indexOf(job);
+      if (queued >= 0) queue.splice(queued, 1);
+      finish(job, new EmbeddingCancelledError());
+    });
+    notify();
+  };
+  const release = () => {
+    if (jobs.every(job => job.settled)) signal?.removeEventListener('abort', abort);
+  };
+  const results = Promise.all(texts.map(text => new Promise<T>((resolve, reject) => {
+    jobs.push({ text, model, tokens, settled: false, resolve: resolve as Job['resolve'], reject, release });
+  })));
 
+  signal?.addEventListener('abort', abort, { once: true });
 
-export const getEmbedding = async (text: string): Promise<Float32Array> => {
-  if (!embedder) await initModel();
-  
-  const output = await embedder(text, { pooling: 'mean', normalize: false });
-  return output.data;
+  queue.push(...jobs);
+  setTimeout(pump);
+  notify();
+  return results;
+};
+
+export const getModelId = () => modelId;
+
+/**
+ * Loads a model in the embedding worker and makes it the one
+ * `getEmbedding` uses. Requests still waiting for a previous model are
+ * cancelled: vectors from different models don't mix.
+ */
+export const initModel = (onProgress?: (progress: number) => void, id: string = modelId): Promise<void> => {
+  if (id !== modelId) {
+    [...queue, ...running?.jobs ?? []].filter(job => job.model !== id).forEach(job => {
+      const queued = queue.indexOf(job);
+      if (queued >= 0) queue.splice(queued, 1);
+      finish(job, new EmbeddingCancelledError());
+    });
+    notify();
+  }
+  modelId = id;
+  if (loadedModel === id) return Promise.resolve();
+
+  let load = loads.get(id);
+  if (!load) {
+    let resolve!: () => void;
+    let reject!: (err: Error) => void;
+    const ready = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+    load = { ready, resolve, reject, listeners: new Set() };
+    loads.set(id, load);
+    send({ type: 'load', model: id });
+  }
+  if (onProgress) load.listeners.add(onProgress);
+  return load.ready;
+};
+
+/** Reports how many texts are waiting or being embedded, now and on every change. */
+export const watchEmbeddingQueue = (listener: (pending: number) => void) => {
+  queueListeners.add(listener);
+  listener(queue.length + (running?.jobs.length ?? 0));
+  return () => { queueListeners.delete(listener); };
+};
+
+/**
+ * Embeddings of several texts, in order. Cached ones are answered at once;
+ * the rest go to the worker in batches.
+ */
+export const getEmbeddings = async (texts: string[], { signal }: EmbedOptions = {}): Promise<Float32Array[]> => {
+  const model = modelId;
+  const keys = await Promise.all(texts.map(async text => `${model}:${await hashText(text)}`));
+  const vectors = await Promise.all(keys.map(key => cacheGet<Float32Array>('embeddings', key)));
+  if (signal?.aborted) throw new EmbeddingCancelledError();
+
+  const missing = texts.flatMap((_, i) => vectors[i] ? [] : [i]);
+  const fresh = await enqueue<Float32Array>(missing.map(i => texts[i]), model, signal);
+  await Promise.all(missing.map((i, n) => {
+    vectors[i] = fresh[n];
+    return cachePut('embeddings', keys[i], fresh[n]);
+  }));
+  return vectors as Float32Array[];
+};
+
+/** Embedding of a text, from the cache when this model has seen the same text before. */
+export const getEmbedding = async (text: string, options?: EmbedOptions): Promise<Float32Array> =>
+  (await getEmbeddings([text], options))[0];
+
+/** Per-token vectors of a text, for tracing its embedding back to words. Not cached. */
+export const getTokenEmbeddings = async (text: string, { signal }: EmbedOptions = {}): Promise<TokenEmbeddings> => {
+  if (signal?.aborted) throw new EmbeddingCancelledError();
+  return (await enqueue<TokenEmbeddings>([text], modelId, signal, true))[0];
+};
+
+// Vectors from different models have unrelated spaces, usually of different sizes
+const assertComparable = (vecA: Float32Array, vecB: Float32Array) => {
+  if (vecA.length !== vecB.length) {
+    throw new Error(`Embeddings of ${vecA.length} and ${vecB.length} dimensions come from different models`);
+  }
 };
 
 export const calculateDifference = (vecA: Float32Array, vecB: Float32Array): Float32Array => {
+  assertComparable(vecA, vecB);
   const diff = new Float32Array(vecA.length);
   for (let i = 0; i < vecA.length; i++) {
     diff[i] = vecB[i] - vecA[i];
   }
   return diff;
 };
+
+const norm = (vec: Float32Array) => Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+
+export const cosineSimilarity = (vecA: Float32Array, vecB: Float32Array): number => {
+  assertComparable(vecA, vecB);
+  let dot = 0;
+  for (let i = 0; i < vecA.length; i++) dot += vecA[i] * vecB[i];
+  return dot / (norm(vecA) * norm(vecB) || 1);
+};
+
+/**
+ * Point at fraction `t` along the path from `vecA` to `vecB`. 'slerp' follows the
+ * great circle between the two directions while easing the magnitude linearly,
+ * so the semantic "energy" of the text survives the blend.
+ */
+export const interpolateEmbeddings = (
+  vecA: Float32Array,
+  vecB: Float32Array,
+  t: number,
+  method: 'linear' | 'slerp' = 'linear'
+): Float32Array => {
+  assertComparable(vecA, vecB);
+  const out = new Float32Array(vecA.length);
+  const normA = norm(vecA);
+  const normB = norm(vecB);
+  let dot = 0;
+  for (let i = 0; i < vecA.length; i++) dot += vecA[i] * vecB[i];
+  const omega = Math.acos(Math.min(1, Math.max(-1, dot / (normA * normB || 1))));
+
+  // Nearly parallel directions make slerp numerically unstable; lerp is indistinguishable there
+  if (method === 'linear' || omega < 1e-4 || normA === 0 || normB === 0) {
+    for (let i = 0; i < vecA.length; i++) out[i] = vecA[i] + (vecB[i] - vecA[i]) * t;
+    return out;
+  }
+
+  const sinOmega = Math.sin(omega);
+  const wA = Math.sin((1 - t) * omega) / sinOmega;
+  const wB = Math.sin(t * omega) / sinOmega;
+  const magnitude = normA + (normB - normA) * t;
+  for (let i = 0; i < vecA.length; i++) {
+    out[i] = (wA * vecA[i] / normA + wB * vecB[i] / normB) * magnitude;
+  }
+  return out;
+};
@@ -0,0 +1,70 @@
+import { pipeline } from '@xenova/transformers';
+
+/** Messages the page sends the worker. */
+export type WorkerRequest =
+  | { type: 'load'; model: string }
+  | { type: 'embed'; id: number; model: string; texts: string[] }
+  | { type: 'tokens'; id: number; model: string; text: string };
+
+/** Messages the worker sends back. */
+export type WorkerResponse =
+  | { type: 'progress'; model: string; progress: number }
+  | { type: 'loaded'; model: string }
+  | { type: 'embedded'; id: number; vectors: Float32Array[] }
+  | { type: 'tokens'; id: number; tokens: string[]; special: boolean[]; vectors: Float32Array[] }
+  | { type: 'failed'; model: string; id?: number; message: string };
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// One pipeline at a time; a request for another model replaces it
+let loaded: { model: string; run: Promise<any> } | null = null;
+
+const load = (model: string) => {
+  if (loaded?.model !== model) {
+    const run = pipeline('feature-extraction', model, {
+      progress_callback: (data: any) => {
+        if (data.status === 'progress') post({ type: 'progress', model, progress: data.progress });
+      }
+    });
+    loaded = { model, run };
+  }
+  return loaded.run;
+};
+
+/**
+ * WORKER: Loads the model and embeds batches off the main thread, so the UI
+ * and Tone's scheduler keep running. A batch is one padded forward pass;
+ * mean pooling over the attention mask keeps each text's vector the same as
+ * embedding it alone.
+ */
+self.onmessage = async ({ data }: MessageEvent<WorkerRequest>) => {
+  try {
+    const run = await load(data.model);
+    if (data.type === 'load') return post({ type: 'loaded', model: data.model });
+
+    // TOKENS: Unpooled, one vector per word piece the model read, their mean being the text's embedding
+    if (data.type === 'tokens') {
+      const ids = Array.from(run.tokenizer(data.text, { truncation: true }).input_ids.data as BigInt64Array, Number);
+      const output = await run(data.text, { pooling: 'none' });
+      const size = output.dims[output.dims.length - 1];
+      const vectors = ids.map((_, i) => (output.data as Float32Array).slice(i * size, (i + 1) * size));
+      const specials = new Set<number>(run.tokenizer.all_special_ids);
+      post({
+        type: 'tokens',
+        id: data.id,
+        tokens: run.tokenizer.model.convert_ids_to_tokens(ids),
+        special: ids.map(id => specials.has(id)),
+        vectors
+      }, vectors.map(v => v.buffer));
+      return;
+    }
+
+    const output = await run(data.texts, { pooling: 'mean', normalize: false });
+    const size = output.dims[output.dims.length - 1];
+    const vectors = data.texts.map((_, i) => (output.data as Float32Array).slice(i * size, (i + 1) * size));
+    post({ type: 'embedded', id: data.id, vectors }, vectors.map(v => v.buffer));
+  } catch (err) {
+    if (data.type === 'load') loaded = null;
+    post({ type: 'failed', model: data.model, id: data.type === 'load' ? undefined : data.id, message: String(err) });
+  }
+};
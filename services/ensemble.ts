@@ -0,0 +1,316 @@
+import * as Tone from 'tone';
+import { InstrumentId } from '../types';
+import { PERC_PITCHES, PercHit, ScoreEvent, ScoreVoice, VOICE_KEYS } from './score';
+import { createMixer, DEFAULT_MIXER, Mixer, MixerSettings } from './mixer';
+
+const BASE = "./samples";
+export const ENSEMBLE_INDEX_URL = `${BASE}/ensembles.json`;
+export const DEFAULT_ENSEMBLE_URL = `${BASE}/chamber.json`;
+const MANIFEST_SCHEMA = 1;
+
+export type EnsemblePart = ScoreVoice;
+export const ENSEMBLE_PARTS: EnsemblePart[] = [...VOICE_KEYS, 'perc'];
+
+// INSTRUMENTATION: Any voice can take any instrument its ensemble defines; the DNA picks per voice
+export const INSTRUMENT_LABELS: Record<InstrumentId, string> = {
+  'bassoon': 'Bassoon',
+  'bass-electric': 'Electric Bass',
+  'cello': 'Cello',
+  'french-horn': 'French Horn',
+  'viola': 'Viola',
+  'violin': 'Violin',
+  'violin-spiccato': 'Violin (Spiccato)',
+  'flute': 'Flute'
+};
+
+/** One recorded dynamic of a zone, played for velocities up to `maxVelocity` (default 1). */
+export interface VelocityLayer {
+  file: string;
+  maxVelocity?: number;
+}
+
+/** Samples recorded at one pitch; the sampler repitches from the nearest zone root. */
+export interface SampleZone {
+  root: string;
+  layers: VelocityLayer[];
+}
+
+export interface VoiceSettings {
+  /** Default instrument for the voice when the DNA asks for one the ensemble lacks */
+  instrument?: InstrumentId;
+  /** Sampler volume in dB */
+  gain: number;
+  /** Attack and release in seconds */
+  envelope: { attack: number; release: number };
+}
+
+/** An ensemble as described by a JSON manifest in public/samples; files are relative to the manifest. */
+export interface EnsembleManifest {
+  schema: number;
+  id: string;
+  label: string;
+  instruments: Partial<Record<InstrumentId, { zones: SampleZone[] }>>;
+  percussion: Record<PercHit, string>;
+  voices: Record<EnsemblePart, VoiceSettings>;
+}
+
+export interface EnsembleIndexEntry {
+  id: string;
+  label: string;
+  /** Manifest URL, resolved against the samples directory */
+  manifest: string;
+}
+
+const PERC_NOTES: Record<PercHit, string> = { kick: "C2", snare: "D2", hat: "E2", impact: "F2" };
+const PERC_BY_PITCH = new Map((Object.keys(PERC_PITCHES) as PercHit[]).map(h => [PERC_PITCHES[h], PERC_NOTES[h]]));
+
+// Decay of the reverb tail, also used to pad offline renders
+export const REVERB_DECAY = 4;
+
+/** Decoded sample buffers keyed by file, with the manifest that names them; shared between the live engine and offline renders. */
+export interface EnsembleBuffers {
+  manifest: EnsembleManifest | null;
+  files: Record<string, Tone.ToneAudioBuffer>;
+}
+
+export interface Ensemble {
+  /** Returns the sampler for a part playing an instrument at a velocity and pan, creating it on first use. */
+  samplerFor: (part: EnsemblePart, instrument?: InstrumentId, velocity?: number, pan?: number) => Tone.Sampler | null;
+  ready: Promise<void>;
+  /** Master volume after the limiter, for fades */
+  output: Tone.Volume;
+  mixer: Mixer;
+  releaseAll: () => void;
+  dispose: () => void;
+}
+
+const resolve = (base: string, file: string) => new URL(file, new URL(base, window.location.href)).href;
+
+/** Lists the ensembles shipped in public/samples, with manifest URLs resolved. */
+export const loadEnsembleIndex = async (): Promise<EnsembleIndexEntry[]> => {
+  const res = await fetch(ENSEMBLE_INDEX_URL);
+  if (!res.ok) throw new Error(`Ensemble index unavailable (${res.status})`);
+  const { ensembles } = await res.json() as { ensembles: EnsembleIndexEntry[] };
+  return ensembles.map(e => ({ ...e, manifest: resolve(ENSEMBLE_INDEX_URL, e.manifest) }));
+};
+
+const NOTE_NAME = /^[A-G](#|b)?-?\d$/;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Every sample file a manifest refers to, instruments first
+const manifestFiles = (manifest: EnsembleManifest) => [
+  ...Object.values(manifest.instruments).flatMap(i => i!.zones.flatMap(z => z.layers.map(l => l.file))),
+  ...Object.values(manifest.percussion)
+];
+
+// Dev servers answer unknown paths with the app's index page, so an HTML response counts as missing too
+const fileExists = async (url: string) => {
+  try {
+    const res = await fetch(url, { method: 'HEAD' });
+    return res.ok && !(res.headers.get('content-type') ?? '').startsWith('text/html');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * VALIDATION: Checks a manifest's shape, then that every file it names is
+ * actually served. Returns one readable problem per fault; empty means valid.
+ */
+export const validateManifest = async (manifest: EnsembleManifest, url: string): Promise<string[]> => {
+  const problems: string[] = [];
+  if (manifest.schema !== MANIFEST_SCHEMA) problems.push(`Unsupported schema ${manifest.schema}, expected ${MANIFEST_SCHEMA}`);
+  if (!manifest.id || !manifest.label) problems.push('Manifest needs an id and a label');
+
+  Object.entries(manifest.instruments ?? {}).forEach(([id, instrument]) => {
+    if (!(id in INSTRUMENT_LABELS)) problems.push(`Unknown instrument "${id}"`);
+    if (!instrument?.zones?.length) problems.push(`${id}: no zones`);
+    instrument?.zones?.forEach(zone => {
+      if (!NOTE_NAME.test(zone.root)) problems.push(`${id}: zone root "${zone.root}" is not a note name`);
+      if (!zone.layers?.length) problems.push(`${id} ${zone.root}: no velocity layers`);
+      zone.layers?.forEach(layer => {
+        if (layer.maxVelocity !== undefined && !(layer.maxVelocity > 0 && layer.maxVelocity <= 1)) {
+          problems.push(`${id} ${zone.root}: maxVelocity ${layer.maxVelocity} is outside 0..1`);
+        }
+      });
+    });
+  });
+
+  (Object.keys(PERC_NOTES) as PercHit[]).forEach(hit => {
+    if (!manifest.percussion?.[hit]) problems.push(`Percussion has no "${hit}" sample`);
+  });
+
+  ENSEMBLE_PARTS.forEach(part => {
+    const voice = manifest.voices?.[part];
+    if (!voice) {
+      problems.push(`No settings for the ${part} voice`);
+      return;
+    }
+    if (part !== 'perc' && (!voice.instrument || !manifest.instruments?.[voice.instrument])) {
+      problems.push(`${part}: default instrument "${voice.instrument}" is not in the ensemble`);
+    }
+    if (!isNumber(voice.gain)) problems.push(`${part}: gain must be a number of dB`);
+    if (!isNumber(voice.envelope?.attack) || !isNumber(voice.envelope?.release)) problems.push(`${part}: envelope needs attack and release`);
+  });
+  // Missing files only make sense to check once the structure holds
+  if (problems.length) return problems;
+
+  const files = [...new Set(manifestFiles(manifest))];
+  const found = await Promise.all(files.map(f => fileExists(resolve(url, f))));
+  files.forEach((f, i) => { if (!found[i]) problems.push(`Missing sample file: ${f}`); });
+  return problems;
+};
+
+/** Fetches and validates a manifest. The manifest is null when it could not be read at all. */
+export const loadManifest = async (url: string): Promise<{ manifest: EnsembleManifest | null; problems: string[] }> => {
+  let manifest: EnsembleManifest;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return { manifest: null, problems: [`Manifest unavailable (${res.status}): ${url}`] };
+    manifest = await res.json();
+  } catch {
+    return { manifest: null, problems: [`Manifest is not readable JSON: ${url}`] };
+  }
+  return { manifest, problems: await validateManifest(manifest, url) };
+};
+
+/**
+ * Fetches and decodes every sample of a validated manifest, reporting each
+ * instrument and the percussion kit as it becomes playable. Files shared
+ * between instruments are decoded once.
+ */
+export const loadEnsembleBuffers = async (
+  manifest: EnsembleManifest,
+  url: string,
+  onLoaded?: (key: InstrumentId | 'perc', ok: boolean) => void
+): Promise<EnsembleBuffers> => {
+  const files: Record<string, Tone.ToneAudioBuffer> = {};
+  const decoding = new Map<string, Promise<void>>();
+  const decode = (file: string) => {
+    if (!decoding.has(file)) {
+      decoding.set(file, Tone.ToneAudioBuffer.fromUrl(resolve(url, file)).then(b => { files[file] = b; }));
+    }
+    return decoding.get(file)!;
+  };
+
+  const sources: [InstrumentId | 'perc', string[]][] = [
+    ...(Object.keys(manifest.instruments) as InstrumentId[]).map(id =>
+      [id, manifest.instruments[id]!.zones.flatMap(z => z.layers.map(l => l.file))] as [InstrumentId, string[]]),
+    ['perc', Object.values(manifest.percussion)]
+  ];
+
+  await Promise.all(sources.map(async ([key, keyFiles]) => {
+    try {
+      await Promise.all(keyFiles.map(decode));
+      onLoaded?.(key, true);
+    } catch (err) {
+      console.error(`❌ Sample missing for ${key}:`, err);
+      onLoaded?.(key, false);
+    }
+  }));
+
+  return { manifest, files };
+};
+
+const layerCeiling = (layer: VelocityLayer) => layer.maxVelocity ?? 1;
+
+// Velocity ceilings an instrument distinguishes, softest first
+const velocityTiers = (zones: SampleZone[]) =>
+  [...new Set(zones.flatMap(z => z.layers.map(layerCeiling)))].sort((a, b) => a - b);
+
+/**
+ * VELOCITY LAYERS: One sampler per tier, each holding every zone at the
+ * softest layer that reaches the tier. Zones recorded with fewer dynamics
+ * fall back to their loudest layer.
+ */
+const tierSamples = (zones: SampleZone[], tier: number, files: EnsembleBuffers['files']) => {
+  const urls: Record<string, Tone.ToneAudioBuffer> = {};
+  zones.forEach(zone => {
+    const layers = [...zone.layers].sort((a, b) => layerCeiling(a) - layerCeiling(b));
+    const layer = layers.find(l => layerCeiling(l) >= tier) ?? layers[layers.length - 1];
+    if (files[layer.file]) urls[zone.root] = files[layer.file];
+  });
+  return urls;
+};
+
+/**
+ * Builds the samplers and their mixer (see `createMixer`) on the current Tone context.
+ * Pass `parts` to build a subset, e.g. a single stem for an offline bounce.
+ */
+export const createEnsemble = (
+  buffers: EnsembleBuffers,
+  parts: EnsemblePart[] = ENSEMBLE_PARTS,
+  mix: MixerSettings = DEFAULT_MIXER
+): Ensemble => {
+  const mixer = createMixer(mix, REVERB_DECAY);
+  const samplers = new Map<string, Tone.Sampler>();
+  const panners: Tone.Panner[] = [];
+  const { manifest, files } = buffers;
+
+  const samplerFor = (part: EnsemblePart, instrument?: InstrumentId, velocity = 1, pan?: number) => {
+    if (!manifest || !parts.includes(part)) return null;
+    const settings = manifest.voices[part];
+
+    let urls: Record<string, Tone.ToneAudioBuffer>;
+    let key: string;
+    if (part === 'perc') {
+      key = 'perc';
+      urls = Object.fromEntries((Object.keys(PERC_NOTES) as PercHit[])
+        .filter(h => files[manifest.percussion[h]])
+        .map(h => [PERC_NOTES[h], files[manifest.percussion[h]]]));
+    } else {
+      // Instruments the ensemble lacks fall back to the voice's own default
+      const source = instrument && manifest.instruments[instrument] ? instrument : settings.instrument!;
+      const zones = manifest.instruments[source]!.zones;
+      const tiers = velocityTiers(zones);
+      const tier = tiers.find(t => velocity <= t) ?? tiers[tiers.length - 1];
+      key = `${part}:${source}:${tier}`;
+      urls = tierSamples(zones, tier, files);
+    }
+
+    if (pan !== undefined) key += `:${pan.toFixed(2)}`;
+    const existing = samplers.get(key);
+    if (existing) return existing;
+    if (!Object.keys(urls).length) return null;
+
+    const sampler = new Tone.Sampler({ urls, attack: settings.envelope.attack, release: settings.envelope.release });
+    if (pan === undefined) {
+      sampler.connect(mixer.input(part));
+    } else {
+      // Panned ahead of the strip, which pans the part as a whole
+      const panner = new Tone.Panner(pan).connect(mixer.input(part));
+      panners.push(panner);
+      sampler.connect(panner);
+    }
+    sampler.volume.value = settings.gain;
+    samplers.set(key, sampler);
+    return sampler;
+  };
+
+  return {
+    samplerFor,
+    ready: mixer.ready,
+    output: mixer.output,
+    mixer,
+    releaseAll: () => samplers.forEach(s => s.releaseAll()),
+    dispose: () => {
+      samplers.forEach(s => s.dispose());
+      panners.forEach(p => p.dispose());
+      mixer.dispose();
+    }
+  };
+};
+
+/** Triggers one score event on an ensemble at `time`, held for `duration` seconds. */
+export const triggerEvent = (ensemble: Ensemble, event: ScoreEvent, time: number, duration: number) => {
+  const sampler = ensemble.samplerFor(event.voice, event.instrument, event.velocity, event.pan);
+  if (!sampler) return;
+
+  if (event.voice === 'perc') {
+    // Percussion samples ring out in full
+    const note = PERC_BY_PITCH.get(event.pitch);
+    if (note) sampler.triggerAttack(note, time, event.velocity);
+  } else {
+    sampler.triggerAttackRelease(Tone.Frequency(event.pitch, "midi").toNote(), duration, time, event.velocity);
+  }
+};
@@ -0,0 +1,78 @@
+import { MusicDNA } from '../types';
+import { createScoreWriter, Score } from './score';
+import { deriveDNA, DNAOverrides, ROOTS } from './musicDNA';
+import { Projection } from './projection';
+
+export type FormSectionName = 'Intro' | 'A' | 'B' | "A'" | 'Coda';
+
+export interface FormSection {
+  name: FormSectionName;
+  bars: number;
+  /** Intensity at the first and last bar of the section, 0..1 */
+  from: number;
+  to: number;
+}
+
+export interface FormOptions {
+  /** Plays this DNA instead of deriving one from the vector. */
+  dna?: MusicDNA;
+  overrides?: DNAOverrides;
+  projection?: Projection | null;
+}
+
+// 0..1 reading of a raw dimension, 0 landing on 0.5
+const level = (value: number) => 0.5 + Math.tanh(value * 10) / 2;
+
+/**
+ * FORM: Intro → A → B → A' → Coda. Section lengths are read from dimensions
+ * 5–8, and intensity builds through B to a peak at the return of A, then
+ * releases into the coda.
+ */
+export const planForm = (vector: Float32Array): FormSection[] => {
+  const aBars = 4 + 2 * Math.round(level(vector[6]) * 2); // 4, 6 or 8
+  return [
+    { name: 'Intro', bars: 1 + Math.round(level(vector[5])), from: 0.3, to: 0.45 },
+    { name: 'A', bars: aBars, from: 0.55, to: 0.65 },
+    { name: 'B', bars: 4 + 2 * Math.round(level(vector[7]) * 2), from: 0.7, to: 1 },
+    { name: "A'", bars: aBars, from: 1, to: 0.7 },
+    { name: 'Coda', bars: 1 + Math.round(level(vector[8])), from: 0.5, to: 0.25 }
+  ];
+};
+
+// The development reads the second half of the vector first, for new material in the same character
+const rotate = (vector: Float32Array, by: number) => {
+  const out = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) out[i] = vector[(i + by) % vector.length];
+  return out;
+};
+
+const withDensity = (dna: MusicDNA, offset: number): MusicDNA => {
+  const shift = (v: MusicDNA['bass']) => ({ ...v, rhythmicDensity: Math.max(0, Math.min(1, v.rhythmicDensity + offset)) });
+  return { ...dna, bass: shift(dna.bass), tenor: shift(dna.tenor), alto: shift(dna.alto), soprano: shift(dna.soprano) };
+};
+
+/**
+ * Composes a single vector as a finished piece in the plan's form. B moves
+ * to the dominant, A' comes home, and the coda ends on a cadence with the
+ * tam-tam. Intensity thins or thickens the texture and scales the dynamics.
+ */
+export const composeForm = (vector: Float32Array, options: FormOptions = {}): Score => {
+  const home = options.dna ?? deriveDNA(vector, options.projection);
+  const away: MusicDNA = { ...home, rootNote: ROOTS[(ROOTS.indexOf(home.rootNote) + 7) % 12] };
+  const turn = Math.floor(vector.length / 2);
+  const development = rotate(vector, turn);
+  const writer = createScoreWriter(options.overrides, options.projection);
+
+  planForm(vector).forEach(section => {
+    writer.markSection(section.name);
+    for (let b = 0; b < section.bars; b++) {
+      const intensity = section.from + (section.to - section.from) * (section.bars > 1 ? b / (section.bars - 1) : 0);
+      const developing = section.name === 'B';
+      const dna = withDensity(developing ? away : home, (intensity - 0.6) * 0.5);
+      writer.writeBar(developing ? development : vector, dna, 0.5 + intensity * 0.6, developing ? turn : 0);
+    }
+  });
+  writer.writeCadence(home);
+
+  return writer.finish();
+};
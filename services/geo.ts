@@ -0,0 +1,82 @@
+import { Location } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export const toLatLon = (loc: Location): LatLon => ({ lat: loc.latitude, lon: loc.longitude });
+
+/** Whether a source has coordinates, e.g. an article found by title that is geotagged. */
+export const isPlaced = <T extends Partial<LatLon>>(source: T): source is T & LatLon =>
+  source.lat !== undefined && source.lon !== undefined;
+
+/** Great-circle distance in metres. */
+export const haversineDistance = (a: LatLon, b: LatLon): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Initial compass bearing from `a` towards `b`, in degrees clockwise from north. */
+export const bearing = (a: LatLon, b: LatLon): number => {
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+/** The point `distance` metres from `from` along the compass `bearing`. */
+export const destination = (from: LatLon, bearingDeg: number, distance: number): LatLon => {
+  const angular = distance / EARTH_RADIUS_M;
+  const theta = toRad(bearingDeg);
+  const lat1 = toRad(from.lat);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lon2 = toRad(from.lon) + Math.atan2(Math.sin(theta) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: lat2 * 180 / Math.PI, lon: ((lon2 * 180 / Math.PI) + 540) % 360 - 180 };
+};
+
+export const routeLength = (stops: LatLon[]): number =>
+  stops.slice(1).reduce((sum, stop, i) => sum + haversineDistance(stops[i], stop), 0);
+
+/**
+ * Reorders stops into a short walk that keeps the first stop as the start:
+ * a nearest-neighbour tour refined with 2-opt swaps. Straight-line distance
+ * stands in for street distance, which is close enough at walking scale.
+ */
+export const orderByWalkingDistance = <T extends LatLon>(stops: T[]): T[] => {
+  if (stops.length < 3) return [...stops];
+
+  const remaining = stops.slice(1);
+  const tour = [stops[0]];
+  while (remaining.length) {
+    const last = tour[tour.length - 1];
+    let nearest = 0;
+    remaining.forEach((s, i) => {
+      if (haversineDistance(last, s) < haversineDistance(last, remaining[nearest])) nearest = i;
+    });
+    tour.push(remaining.splice(nearest, 1)[0]);
+  }
+
+  // 2-opt: reverse any segment that shortens the open path
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < tour.length - 1; i++) {
+      for (let j = i + 1; j < tour.length; j++) {
+        const before = haversineDistance(tour[i - 1], tour[i]) + (j + 1 < tour.length ? haversineDistance(tour[j], tour[j + 1]) : 0);
+        const after = haversineDistance(tour[i - 1], tour[j]) + (j + 1 < tour.length ? haversineDistance(tour[i], tour[j + 1]) : 0);
+        if (after + 1e-6 < before) {
+          tour.splice(i, j - i + 1, ...tour.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return tour;
+};
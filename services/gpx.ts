@@ -0,0 +1,50 @@
+import { Location } from '../types';
+import { PositionSource } from './walking';
+
+export interface TrackPoint extends Location {
+  /** Milliseconds since the epoch, when the track records it */
+  time?: number;
+}
+
+// Tracks without timestamps replay at one point every two seconds
+const UNTIMED_INTERVAL_MS = 2000;
+// Long pauses in a recording are shortened so replays keep moving
+const MAX_GAP_MS = 10000;
+
+/** Reads the track points of a GPX file, in order, across all its tracks and segments. */
+export const parseGpx = (xml: string): TrackPoint[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Not a valid GPX file');
+
+  const points = Array.from(doc.getElementsByTagName('trkpt')).map(pt => {
+    const time = pt.getElementsByTagName('time')[0]?.textContent;
+    return {
+      latitude: Number(pt.getAttribute('lat')),
+      longitude: Number(pt.getAttribute('lon')),
+      time: time ? Date.parse(time) : undefined
+    };
+  }).filter(p => Number.isFinite(p.latitude) && Number.isFinite(p.longitude));
+
+  if (!points.length) throw new Error('GPX file has no track points');
+  return points;
+};
+
+/**
+ * REPLAY: Feeds a recorded track through as if it were live GPS, keeping
+ * the recording's timing sped up by `speed`.
+ */
+export const gpxReplay = (points: TrackPoint[], speed = 1): PositionSource => (onPosition) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const emit = (i: number) => {
+    onPosition({ latitude: points[i].latitude, longitude: points[i].longitude });
+    if (i + 1 >= points.length) return;
+    const a = points[i].time;
+    const b = points[i + 1].time;
+    const gap = a !== undefined && b !== undefined ? Math.min(MAX_GAP_MS, Math.max(0, b - a)) : UNTIMED_INTERVAL_MS;
+    timer = setTimeout(() => emit(i + 1), gap / speed);
+  };
+  emit(0);
+
+  return () => clearTimeout(timer);
+};
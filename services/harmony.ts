@@ -0,0 +1,147 @@
+import { MusicDNA } from '../types';
+import { cosineSimilarity } from './embeddingService';
+import { deriveDNA, ROOTS } from './musicDNA';
+import { Projection } from './projection';
+import { SCALE_LIBRARY } from './scales';
+
+export type KeyMode = 'major' | 'minor';
+
+export interface Key {
+  root: string;
+  mode: KeyMode;
+}
+
+/** A chord as pitch classes from the root up (triad, or seventh chord for dominants). */
+export interface Chord {
+  pitchClasses: number[];
+  /** Roman-numeral function, e.g. "vi = ii" for a pivot */
+  label: string;
+}
+
+export interface KeyRelationship {
+  from: Key;
+  to: Key;
+  similarity: number;
+  /** Steps apart on the circle of fifths, 0 (same key) to 6 (tritone) */
+  fifths: number;
+}
+
+// Ionian and natural minor; the minor dominant borrows its leading tone from harmonic minor
+const MODE_STEPS: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10]
+};
+
+const NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii'];
+
+// Predominant functions lead most naturally into a new dominant, so they win as pivots
+const PIVOT_PREFERENCE = [1, 3, 5, 0, 2, 4, 6];
+
+const pc = (n: number) => ((n % 12) + 12) % 12;
+const rootPc = (key: Key) => ROOTS.indexOf(key.root);
+
+export const keyName = (key: Key) => `${key.root} ${key.mode}`;
+const sameKey = (a: Key, b: Key) => a.root === b.root && a.mode === b.mode;
+
+/** Key of a DNA, by the quality of its scale's tonic triad. */
+export const dnaKey = (dna: MusicDNA): Key => ({ root: dna.rootNote, mode: SCALE_LIBRARY[dna.scaleType].quality });
+
+/**
+ * SIMILARITY → DISTANCE: Near-identical landmarks (cos ≥ 0.9) share a key,
+ * each 0.1 below that moves one more step round the circle of fifths, and
+ * anything at 0.3 or below lands a tritone away.
+ */
+export const fifthsForSimilarity = (similarity: number) =>
+  Math.max(0, Math.min(6, Math.round((0.9 - similarity) / 0.1)));
+
+// Major keys move sharpwards and minor keys flatwards, so brightness follows the mode
+const transposeByFifths = (key: Key, fifths: number, mode: KeyMode): Key => {
+  const direction = mode === 'major' ? 1 : -1;
+  return { root: ROOTS[pc(rootPc(key) + direction * fifths * 7)], mode };
+};
+
+/**
+ * Keys for an origin/target pair: the origin keeps its own derived key and
+ * the target is placed on the circle of fifths by their cosine similarity,
+ * keeping its own mode. Both keys are read along `projection`, as the pieces are.
+ */
+export const relateKeys = (from: Float32Array, to: Float32Array, projection: Projection | null = null): KeyRelationship => {
+  const similarity = cosineSimilarity(from, to);
+  const fifths = fifthsForSimilarity(similarity);
+  const fromKey = dnaKey(deriveDNA(from, projection));
+  return { from: fromKey, to: transposeByFifths(fromKey, fifths, dnaKey(deriveDNA(to, projection)).mode), similarity, fifths };
+};
+
+// Diatonic triad on a scale degree, as pitch classes
+const triad = (key: Key, degree: number): number[] => {
+  const steps = MODE_STEPS[key.mode];
+  return [0, 2, 4].map(o => pc(rootPc(key) + steps[(degree + o) % 7]));
+};
+
+const quality = (pcs: number[]) => {
+  const third = pc(pcs[1] - pcs[0]);
+  const fifth = pc(pcs[2] - pcs[0]);
+  return fifth === 6 ? 'dim' : third === 4 ? 'major' : 'minor';
+};
+
+const numeral = (pcs: number[], degree: number) => {
+  const q = quality(pcs);
+  const base = NUMERALS[degree];
+  return q === 'major' ? base.toUpperCase() : q === 'dim' ? `${base}°` : base;
+};
+
+const samePcs = (a: number[], b: number[]) => a.every((x, i) => x === b[i]);
+
+export const tonicChord = (key: Key): Chord => ({ pitchClasses: triad(key, 0), label: numeral(triad(key, 0), 0) });
+
+/** Dominant seventh of a key, major in minor keys too. */
+export const dominantChord = (key: Key): Chord => {
+  const root = pc(rootPc(key) + 7);
+  return { pitchClasses: [root, pc(root + 4), pc(root + 7), pc(root + 10)], label: 'V7' };
+};
+
+/** Best chord diatonic to both keys, named by its function in each, or null if they share none. */
+export const findPivot = (from: Key, to: Key): Chord | null => {
+  for (const toDegree of PIVOT_PREFERENCE) {
+    const pcs = triad(to, toDegree);
+    // Diminished triads are too ambiguous to establish a pivot
+    if (quality(pcs) === 'dim') continue;
+    const fromDegree = [0, 1, 2, 3, 4, 5, 6].find(d => samePcs(triad(from, d), pcs));
+    if (fromDegree !== undefined) {
+      return { pitchClasses: pcs, label: `${numeral(pcs, fromDegree)} = ${numeral(pcs, toDegree)}` };
+    }
+  }
+  return null;
+};
+
+const ALL_KEYS: Key[] = ROOTS.flatMap(root => (['major', 'minor'] as KeyMode[]).map(mode => ({ root, mode })));
+
+/**
+ * MODULATION: Shortest chain of keys from `from` to `to` where each step
+ * shares a pivot chord, spelled out as pivot → V7 → I per step. Distant keys
+ * pass through intermediate tonicisations rather than jumping.
+ */
+export const modulationPath = (from: Key, to: Key): Chord[] => {
+  if (sameKey(from, to)) return [];
+
+  // Breadth-first over the 24 keys, linked when they share a usable pivot
+  const previous = new Map<string, Key>([[keyName(from), from]]);
+  const queue: Key[] = [from];
+  while (queue.length && !previous.has(keyName(to))) {
+    const current = queue.shift()!;
+    ALL_KEYS.forEach(next => {
+      if (previous.has(keyName(next)) || !findPivot(current, next)) return;
+      previous.set(keyName(next), current);
+      queue.push(next);
+    });
+  }
+
+  const chain: Key[] = [to];
+  while (!sameKey(chain[0], from)) chain.unshift(previous.get(keyName(chain[0]))!);
+
+  const chords: Chord[] = [tonicChord(from)];
+  for (let i = 1; i < chain.length; i++) {
+    chords.push(findPivot(chain[i - 1], chain[i])!, dominantChord(chain[i]), tonicChord(chain[i]));
+  }
+  return chords;
+};
@@ -0,0 +1,67 @@
+import { MusicDNA } from '../types';
+import { interpolateEmbeddings } from './embeddingService';
+import { createScoreWriter, Score } from './score';
+import { deriveDNA, DNAOverrides } from './musicDNA';
+import { Projection } from './projection';
+import { Key, keyName, modulationPath } from './harmony';
+
+export type JourneyInterpolation = 'linear' | 'slerp';
+
+export interface JourneyOptions {
+  bars?: number;
+  interpolation?: JourneyInterpolation;
+  overrides?: DNAOverrides;
+  projection?: Projection | null;
+  /** Keys of the two ends; when given the journey modulates between them through pivot chords. */
+  keys?: { from: Key; to: Key };
+}
+
+const inKey = (dna: MusicDNA, key: Key, scaleType: MusicDNA['scaleType']): MusicDNA => ({ ...dna, rootNote: key.root, scaleType });
+
+/**
+ * Composes a piece that travels from one embedding to another. Each bar is
+ * written from the interpolated vector at that point of the path, so meter,
+ * tempo, mode and voice material all drift towards the destination, which
+ * the final bar reaches before a closing cadence in its key.
+ *
+ * With `keys`, the first half stays in the origin key, a pivot-chord
+ * progression sits at the midpoint and the second half settles in the target key.
+ */
+export const composeJourney = (from: Float32Array, to: Float32Array, options: JourneyOptions = {}): Score => {
+  const { bars = 16, interpolation = 'slerp', overrides, projection = null, keys } = options;
+  const writer = createScoreWriter(overrides, projection);
+  const dnaOf = (vector: Float32Array) => deriveDNA(vector, projection);
+
+  if (!keys) {
+    for (let i = 0; i < bars; i++) {
+      const t = bars > 1 ? i / (bars - 1) : 1;
+      writer.writeBar(interpolateEmbeddings(from, to, t, interpolation));
+    }
+    writer.writeCadence(dnaOf(to));
+    return writer.finish();
+  }
+
+  // Each half keeps its end's own scale, so only the tonic moves
+  const fromScale = dnaOf(from).scaleType;
+  const toScale = dnaOf(to).scaleType;
+  // A pivot chain too long for the bars asked for loses its opening chords, keeping its cadence into the target
+  const path = modulationPath(keys.from, keys.to);
+  const chords = path.slice(path.length - Math.min(path.length, Math.max(0, bars - 2)));
+  const melodicBars = bars - chords.length;
+  const before = Math.ceil(melodicBars / 2);
+  const total = bars;
+  const vectorAt = (i: number) => interpolateEmbeddings(from, to, total > 1 ? i / (total - 1) : 1, interpolation);
+
+  for (let i = 0; i < total; i++) {
+    const vector = vectorAt(i);
+    const chord = chords[i - before];
+    if (i === before && chords.length) writer.markSection(`${keyName(keys.from)} → ${keyName(keys.to)}`);
+
+    if (chord) writer.writeChord(chord.pitchClasses, dnaOf(vector));
+    else if (i < before) writer.writeBar(vector, inKey(dnaOf(vector), keys.from, fromScale));
+    else writer.writeBar(vector, inKey(dnaOf(vector), keys.to, toScale));
+  }
+  writer.writeCadence(inKey(dnaOf(to), keys.to, toScale));
+
+  return writer.finish();
+};
@@ -0,0 +1,56 @@
+import { cacheGet, cachePut, isOffline } from './cache';
+
+export type LandmarkType = 'church' | 'museum' | 'bridge' | 'park' | 'monument' | 'castle' | 'theatre' | 'station' | 'square' | 'education';
+
+/**
+ * Wikidata classes that count as each type, matched against an item's
+ * direct "instance of" (P31) values. Common subclasses are listed outright
+ * since following the full subclass tree needs a SPARQL query per search.
+ */
+export const LANDMARK_TYPES: Record<LandmarkType, { label: string; classes: string[] }> = {
+  church: { label: 'Churches', classes: ['Q16970', 'Q2977', 'Q108325', 'Q1088552', 'Q160742', 'Q44613'] },
+  museum: { label: 'Museums', classes: ['Q33506', 'Q207694', 'Q1007870'] },
+  bridge: { label: 'Bridges', classes: ['Q12280', 'Q12570', 'Q158438'] },
+  park: { label: 'Parks', classes: ['Q22698', 'Q22746', 'Q167346', 'Q1107656'] },
+  monument: { label: 'Monuments', classes: ['Q4989906', 'Q5003624', 'Q575759', 'Q179700'] },
+  castle: { label: 'Castles', classes: ['Q23413', 'Q57821'] },
+  theatre: { label: 'Theatres', classes: ['Q24354', 'Q153562', 'Q1060829'] },
+  station: { label: 'Stations', classes: ['Q55488', 'Q928830'] },
+  square: { label: 'Squares', classes: ['Q174782'] },
+  education: { label: 'Universities & Schools', classes: ['Q3918', 'Q3914'] }
+};
+
+const WIKIDATA_API = 'https://www.wikidata.org/w/api.php';
+// wbgetentities takes at most 50 ids per request
+const BATCH = 50;
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/** P31 values of Wikidata items, cached per item. Offline, uncached items have no known type. */
+export const instanceTypes = async (items: string[]): Promise<Record<string, string[]>> => {
+  const types: Record<string, string[]> = {};
+  const cached = await Promise.all(items.map(q => cacheGet<string[]>('wikidata', q)));
+  const missing = items.filter((q, i) => {
+    if (cached[i]) types[q] = cached[i]!;
+    return !cached[i];
+  });
+  if (!missing.length || isOffline()) return types;
+
+  for (const ids of chunk(missing, BATCH)) {
+    const response = await fetch(`${WIKIDATA_API}?action=wbgetentities&ids=${ids.join('|')}&props=claims&format=json&origin=*`);
+    if (!response.ok) throw new Error(`Wikidata request failed (${response.status})`);
+    const data = await response.json();
+    if (data.error) throw new Error(`Wikidata API error: ${data.error.info ?? data.error.code}`);
+    await Promise.all(ids.map(q => {
+      const claims: any[] = data.entities?.[q]?.claims?.P31 ?? [];
+      types[q] = claims.map(c => c.mainsnak?.datavalue?.value?.id).filter(Boolean);
+      return cachePut('wikidata', q, types[q]);
+    }));
+  }
+  return types;
+};
+
+/** Whether an item's P31 values fall in any of the chosen types. */
+export const matchesTypes = (instanceOf: string[], wanted: LandmarkType[]) =>
+  wanted.some(t => LANDMARK_TYPES[t].classes.some(c => instanceOf.includes(c)));
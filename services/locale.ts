@@ -0,0 +1,104 @@
+import { InstrumentId } from '../types';
+import { bearing, LatLon } from './geo';
+import { applyOverrides, deriveDNA, DNAOverrides, ROOTS, VoiceKey } from './musicDNA';
+import { Projection } from './projection';
+import { Score, ScoreEvent } from './score';
+import { SCALE_LIBRARY } from './scales';
+import { VOICE_RANGES } from './voiceLeading';
+
+export interface LocaleLayer extends LatLon {
+  title: string;
+  embedding: Float32Array;
+  /** Metres from the centre of the search */
+  dist: number;
+}
+
+export interface LocaleOptions {
+  bars?: number;
+  overrides?: DNAOverrides;
+  projection?: Projection | null;
+  /** Places each layer by its bearing from here; without it layers are spread evenly */
+  listener?: LatLon;
+}
+
+// Dimensions 24–31 are read as the timbre segment, after the rhythm segment
+const TIMBRE_DIMS = 24;
+
+// TIMBRE: Darkest to brightest, each in the voice whose strip and range suit it
+const TIMBRES: { instrument: InstrumentId; voice: VoiceKey }[] = [
+  { instrument: 'bassoon', voice: 'bass' },
+  { instrument: 'cello', voice: 'bass' },
+  { instrument: 'bass-electric', voice: 'bass' },
+  { instrument: 'french-horn', voice: 'tenor' },
+  { instrument: 'viola', voice: 'tenor' },
+  { instrument: 'violin', voice: 'alto' },
+  { instrument: 'violin-spiccato', voice: 'alto' },
+  { instrument: 'flute', voice: 'soprano' }
+];
+
+// Note spacings in steps; mutually awkward so the layers drift against each other
+const PERIODS = [6, 7, 10, 12, 15, 16];
+
+// A landmark this far away plays at half the level of one underfoot
+const HALF_GAIN_M = 250;
+const MAX_VELOCITY = 0.5;
+
+// 0..1 reading of a dimension, 0 landing on 0.5
+const level = (value: number) => 0.5 + Math.tanh(value * 10) / 2;
+const pick = <T>(options: T[], value: number) => options[Math.min(options.length - 1, Math.floor(value * options.length))];
+
+/** Level of a layer at `dist` metres: 1 underfoot, halving at 250 m and falling away beyond. */
+export const layerGain = (dist: number) => HALF_GAIN_M / (HALF_GAIN_M + Math.max(0, dist));
+
+const mean = (vectors: Float32Array[]) => {
+  const out = new Float32Array(vectors[0].length);
+  vectors.forEach(v => v.forEach((x, i) => { out[i] += x / vectors.length; }));
+  return out;
+};
+
+/**
+ * LOCALE: Every nearby landmark becomes a quiet, slow layer in one shared
+ * key and tempo, derived from the neighbourhood's mean embedding. Each
+ * layer's embedding picks its instrument and note spacing, its distance
+ * sets its level, and its bearing places it in the stereo field.
+ */
+export const composeLocale = (layers: LocaleLayer[], options: LocaleOptions = {}): Score => {
+  const { bars = 16, overrides, projection = null, listener } = options;
+  const base = applyOverrides(deriveDNA(mean(layers.map(l => l.embedding)), projection), overrides);
+  // Ambient: well below the neighbourhood's own tempo
+  const dna = { ...base, tempo: Math.max(48, Math.round(base.tempo * 0.6)) };
+  const stepsPerBar = dna.beatsPerBar * 4;
+  const totalSteps = bars * stepsPerBar;
+
+  const root = ROOTS.indexOf(dna.rootNote);
+  const pitchClasses = SCALE_LIBRARY[dna.scaleType].steps.map(s => (s + root) % 12);
+
+  const events: ScoreEvent[] = layers.flatMap((layer, i) => {
+    const v = layer.embedding;
+    const read = (k: number) => level(v[(TIMBRE_DIMS + k) % v.length]);
+    const { instrument, voice } = pick(TIMBRES, read(0));
+    const period = pick(PERIODS, read(1));
+    const [low, high] = VOICE_RANGES[voice];
+    const scalePitches = Array.from({ length: high - low + 1 }, (_, p) => low + p).filter(p => pitchClasses.includes(p % 12));
+    const pan = listener
+      ? Math.sin(bearing(listener, layer) * Math.PI / 180)
+      : layers.length > 1 ? -0.8 + 1.6 * i / (layers.length - 1) : 0;
+    const velocity = MAX_VELOCITY * layerGain(layer.dist);
+
+    const notes: ScoreEvent[] = [];
+    // Staggered entries so the layers don't all speak on the downbeat
+    for (let time = (i * 3) % period, n = 0; time < totalSteps; time += period, n++) {
+      const pitch = scalePitches[Math.floor(level(v[(n * 7 + i) % v.length]) * (scalePitches.length - 1))];
+      notes.push({ voice, time, pitch, duration: period * 1.5, velocity, instrument, pan });
+    }
+    return notes;
+  });
+
+  return {
+    dna,
+    bars: Array.from({ length: bars }, (_, b) => ({ startStep: b * stepsPerBar, beatsPerBar: dna.beatsPerBar, bpm: dna.tempo })),
+    sections: [],
+    totalSteps,
+    events: events.sort((a, b) => a.time - b.time)
+  };
+};
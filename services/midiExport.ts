@@ -0,0 +1,129 @@
+import { InstrumentId } from '../types';
+import { Score, VOICE_KEYS, VoiceKey } from './score';
+import { DEFAULT_INSTRUMENTS } from './musicDNA';
+
+const PPQ = 480;
+const TICKS_PER_STEP = PPQ / 4;
+
+// General MIDI programs for each instrument (0-based)
+const INSTRUMENT_PROGRAMS: Record<InstrumentId, number> = {
+  'bassoon': 70,
+  'bass-electric': 33,
+  'cello': 42,
+  'french-horn': 60,
+  'viola': 41,
+  'violin': 40,
+  'violin-spiccato': 40,
+  'flute': 73
+};
+
+// Percussion events already carry GM drum keys, sent on channel 10
+const PERC_CHANNEL = 9;
+
+interface MidiEvent {
+  tick: number;
+  data: number[];
+}
+
+const varLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+const textMeta = (type: number, text: string): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  return [0xff, type, ...varLength(bytes.length), ...bytes];
+};
+
+const toVelocity = (v: number) => Math.max(1, Math.min(127, Math.round(v * 127)));
+
+const encodeTrack = (events: MidiEvent[]): number[] => {
+  // On the same tick: program changes first, then note-offs before note-ons so repeated pitches retrigger cleanly
+  const rank = (e: MidiEvent) => (e.data[0] & 0xf0) === 0xc0 ? 0 : e.data[0] & 0xf0;
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || rank(a) - rank(b));
+  const body: number[] = [];
+  let last = 0;
+  sorted.forEach(e => {
+    body.push(...varLength(e.tick - last), ...e.data);
+    last = e.tick;
+  });
+  body.push(0x00, 0xff, 0x2f, 0x00);
+
+  const len = body.length;
+  return [0x4d, 0x54, 0x72, 0x6b, (len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff, ...body];
+};
+
+interface TrackBuilder {
+  events: MidiEvent[];
+  pendingOffs: Map<number, MidiEvent>;
+  program?: number;
+}
+
+const createTrack = (name: string): TrackBuilder => ({
+  events: [{ tick: 0, data: textMeta(0x03, name) }],
+  pendingOffs: new Map()
+});
+
+// Voices can change instrument between bars, so programs follow the notes
+const setProgram = (track: TrackBuilder, channel: number, program: number, tick: number) => {
+  if (track.program === program) return;
+  track.program = program;
+  track.events.push({ tick, data: [0xc0 | channel, program] });
+};
+
+const addNote = (track: TrackBuilder, channel: number, key: number, tick: number, length: number, velocity: number) => {
+  // A channel cannot overlap the same key, so end any ringing note before retriggering it
+  const ringing = track.pendingOffs.get(key);
+  if (ringing && ringing.tick > tick) ringing.tick = tick;
+
+  const off = { tick: tick + Math.max(1, Math.round(length)), data: [0x80 | channel, key, 0] };
+  track.events.push({ tick, data: [0x90 | channel, key, toVelocity(velocity)] }, off);
+  track.pendingOffs.set(key, off);
+};
+
+const tempoMeta = (bpm: number): number[] => {
+  const usPerQuarter = Math.round(60000000 / bpm);
+  return [0xff, 0x51, 0x03, (usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff];
+};
+
+/**
+ * Writes a score as a format-1 Standard MIDI File: a conductor track with
+ * tempo, meter and section markers, one track per voice and a GM percussion track.
+ */
+export const createMidiFile = (score: Score, title: string = 'Wikiphonic'): Uint8Array => {
+  const conductor: MidiEvent[] = [{ tick: 0, data: textMeta(0x03, title) }];
+  score.bars.forEach((bar, i) => {
+    const prev = score.bars[i - 1];
+    const tick = bar.startStep * TICKS_PER_STEP;
+    if (!prev || prev.bpm !== bar.bpm) conductor.push({ tick, data: tempoMeta(bar.bpm) });
+    if (!prev || prev.beatsPerBar !== bar.beatsPerBar) conductor.push({ tick, data: [0xff, 0x58, 0x04, bar.beatsPerBar, 2, 24, 8] });
+  });
+  score.sections.forEach(section => {
+    conductor.push({ tick: section.startStep * TICKS_PER_STEP, data: textMeta(0x06, section.label) });
+  });
+
+  const voiceTracks = {} as Record<VoiceKey, TrackBuilder>;
+  VOICE_KEYS.forEach((voice) => {
+    voiceTracks[voice] = createTrack(voice);
+  });
+  const percTrack = createTrack('percussion');
+
+  // Events arrive in time order, which the overlap trimming in addNote relies on
+  [...score.events].sort((a, b) => a.time - b.time).forEach(e => {
+    const tick = Math.round(e.time * TICKS_PER_STEP);
+    const length = e.duration * TICKS_PER_STEP;
+    if (e.voice === 'perc') addNote(percTrack, PERC_CHANNEL, e.pitch, tick, length, e.velocity);
+    else {
+      const channel = VOICE_KEYS.indexOf(e.voice);
+      const track = voiceTracks[e.voice];
+      setProgram(track, channel, INSTRUMENT_PROGRAMS[e.instrument ?? DEFAULT_INSTRUMENTS[e.voice]], tick);
+      addNote(track, channel, e.pitch, tick, length, e.velocity);
+    }
+  });
+
+  const tracks = [conductor, ...VOICE_KEYS.map(v => voiceTracks[v].events), percTrack.events];
+  const header = [0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, tracks.length, (PPQ >> 8) & 0xff, PPQ & 0xff];
+
+  return new Uint8Array([...header, ...tracks.flatMap(encodeTrack)]);
+};
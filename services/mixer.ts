@@ -0,0 +1,186 @@
+import * as Tone from 'tone';
+import { ScoreVoice, VOICE_KEYS } from './score';
+import { pannerPosition, SpatialMode, SpatialPoint } from './spatial';
+
+export type MixerChannel = ScoreVoice;
+export const MIXER_CHANNELS: MixerChannel[] = [...VOICE_KEYS, 'perc'];
+
+export interface ChannelSettings {
+  /** Fader in dB, on top of the ensemble's own gain for the voice */
+  gain: number;
+  mute: boolean;
+  solo: boolean;
+  /** -1 (left) to 1 (right) */
+  pan: number;
+  /** Send levels, 0..1 */
+  delaySend: number;
+  reverbSend: number;
+}
+
+export interface MixerSettings {
+  channels: Record<MixerChannel, ChannelSettings>;
+  master: {
+    gain: number;
+    /** Compressor threshold in dB; the limiter after it always catches peaks at -1 dB */
+    threshold: number;
+    ratio: number;
+  };
+  /** Places the dry mix at the landmarks' bearings: equal-power stereo or HRTF binaural */
+  spatial: SpatialMode;
+}
+
+const STORAGE_KEY = 'wikiphonic.mixer';
+
+// Voices spread across the stereo field low to high; percussion stays centred and skips the delay
+export const DEFAULT_MIXER: MixerSettings = {
+  channels: {
+    bass: { gain: 0, mute: false, solo: false, pan: 0, delaySend: 0.2, reverbSend: 0.3 },
+    tenor: { gain: 0, mute: false, solo: false, pan: -0.3, delaySend: 0.25, reverbSend: 0.35 },
+    alto: { gain: 0, mute: false, solo: false, pan: 0.3, delaySend: 0.25, reverbSend: 0.35 },
+    soprano: { gain: 0, mute: false, solo: false, pan: 0.1, delaySend: 0.3, reverbSend: 0.4 },
+    perc: { gain: 0, mute: false, solo: false, pan: 0, delaySend: 0, reverbSend: 0.35 }
+  },
+  master: { gain: 0, threshold: -18, ratio: 3 },
+  spatial: 'off'
+};
+
+/** Mixer settings saved by `saveMixerSettings`, filled out with defaults for anything missing. */
+export const loadMixerSettings = (): MixerSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<MixerSettings> | null;
+    if (!saved) return DEFAULT_MIXER;
+    return {
+      channels: Object.fromEntries(MIXER_CHANNELS.map(c => [c, { ...DEFAULT_MIXER.channels[c], ...saved.channels?.[c] }])) as MixerSettings['channels'],
+      master: { ...DEFAULT_MIXER.master, ...saved.master },
+      spatial: saved.spatial ?? DEFAULT_MIXER.spatial
+    };
+  } catch {
+    return DEFAULT_MIXER;
+  }
+};
+
+export const saveMixerSettings = (settings: MixerSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Whether a channel is heard: not muted, and soloed if anything is. */
+export const isAudible = (settings: MixerSettings, channel: MixerChannel) => {
+  const anySolo = MIXER_CHANNELS.some(c => settings.channels[c].solo);
+  const strip = settings.channels[channel];
+  return !strip.mute && (!anySolo || strip.solo);
+};
+
+/** The same mix with every channel audible, for rendering stems one part at a time. */
+export const withoutMutes = (settings: MixerSettings): MixerSettings => ({
+  ...settings,
+  channels: Object.fromEntries(MIXER_CHANNELS.map(c => [c, { ...settings.channels[c], mute: false, solo: false }])) as MixerSettings['channels']
+});
+
+export interface Mixer {
+  /** Channel strip input for a part; samplers connect here. */
+  input: (channel: MixerChannel) => Tone.InputNode;
+  /** Master volume after the limiter, for fades */
+  output: Tone.Volume;
+  ready: Promise<void>;
+  apply: (settings: MixerSettings) => void;
+  /** Routes the dry mix through the 3D panner when spatial audio is on, or past it for scores with no place. */
+  spatialise: (on: boolean) => void;
+  /** Moves the spatialised dry mix to a point, ramping over `rampSeconds` from `time`. */
+  place: (point: Pick<SpatialPoint, 'bearing' | 'distance'>, time: number, rampSeconds: number) => void;
+  /** Master level in dB and current compressor gain reduction */
+  level: () => { db: number; reduction: number };
+  dispose: () => void;
+}
+
+/**
+ * MIXER: Each part gets a strip (fader and pan, then post-fader delay and
+ * reverb sends) summed into a master bus of compressor → limiter → volume,
+ * metered at the end. The delay returns through the reverb so echoes sit in
+ * the same room. With spatial audio on, the dry strips pass through a 3D
+ * panner first while the effect returns stay around the listener.
+ */
+export const createMixer = (settings: MixerSettings, reverbDecay: number): Mixer => {
+  const output = new Tone.Volume(0).toDestination();
+  const meter = new Tone.Meter({ smoothing: 0.8 });
+  output.connect(meter);
+  const limiter = new Tone.Limiter(-1).connect(output);
+  const compressor = new Tone.Compressor().connect(limiter);
+  const master = new Tone.Volume(0).connect(compressor);
+
+  const reverb = new Tone.Reverb({ decay: reverbDecay, wet: 1 }).connect(master);
+  const delay = new Tone.FeedbackDelay({ delayTime: "8n.", feedback: 0.25, wet: 1 }).connect(master);
+  delay.connect(reverb);
+
+  const dry = new Tone.Gain().connect(master);
+  const panner = new Tone.Panner3D({ distanceModel: 'inverse', refDistance: 1, rolloffFactor: 1, positionZ: -1 }).connect(master);
+  let spatial: SpatialMode = 'off';
+  let placed = true;
+  let throughPanner = false;
+  const route = () => {
+    const next = spatial !== 'off' && placed;
+    if (next === throughPanner) return;
+    dry.disconnect();
+    dry.connect(next ? panner : master);
+    throughPanner = next;
+  };
+  const setSpatial = (mode: SpatialMode) => {
+    if (mode !== 'off') panner.panningModel = mode === 'binaural' ? 'HRTF' : 'equalpower';
+    spatial = mode;
+    route();
+  };
+  const spatialise = (on: boolean) => {
+    placed = on;
+    route();
+  };
+
+  const strips = Object.fromEntries(MIXER_CHANNELS.map(channel => {
+    const panVol = new Tone.PanVol().connect(dry);
+    const delaySend = new Tone.Gain(0).connect(delay);
+    const reverbSend = new Tone.Gain(0).connect(reverb);
+    panVol.connect(delaySend);
+    panVol.connect(reverbSend);
+    return [channel, { panVol, delaySend, reverbSend }];
+  })) as Record<MixerChannel, { panVol: Tone.PanVol; delaySend: Tone.Gain; reverbSend: Tone.Gain }>;
+
+  const apply = (next: MixerSettings) => {
+    MIXER_CHANNELS.forEach(channel => {
+      const { panVol, delaySend, reverbSend } = strips[channel];
+      const strip = next.channels[channel];
+      panVol.volume.value = strip.gain;
+      panVol.pan.value = strip.pan;
+      // Sends are post-fader, so muting the strip silences them too
+      panVol.mute = !isAudible(next, channel);
+      delaySend.gain.value = strip.delaySend;
+      reverbSend.gain.value = strip.reverbSend;
+    });
+    master.volume.value = next.master.gain;
+    compressor.threshold.value = next.master.threshold;
+    compressor.ratio.value = next.master.ratio;
+    setSpatial(next.spatial);
+  };
+
+  const place = (point: Pick<SpatialPoint, 'bearing' | 'distance'>, time: number, rampSeconds: number) => {
+    const position = pannerPosition(point);
+    ([[panner.positionX, position.x], [panner.positionY, position.y], [panner.positionZ, position.z]] as const).forEach(([param, value]) => {
+      // A ramp runs from the previous event, so hold where the source is at `time` and drop anything scheduled after it
+      param.cancelAndHoldAtTime(time);
+      if (rampSeconds > 0) param.linearRampToValueAtTime(value, time + rampSeconds);
+      else param.setValueAtTime(value, time);
+    });
+  };
+  apply(settings);
+
+  return {
+    input: channel => strips[channel].panVol,
+    output,
+    ready: reverb.ready,
+    apply,
+    spatialise,
+    place,
+    level: () => ({ db: meter.getValue() as number, reduction: compressor.reduction }),
+    dispose: () => {
+      MIXER_CHANNELS.forEach(c => Object.values(strips[c]).forEach(node => node.dispose()));
+      [dry, panner, delay, reverb, master, compressor, limiter, meter, output].forEach(node => node.dispose());
+    }
+  };
+};
@@ -0,0 +1,178 @@
+import { InstrumentId, MusicDNA, VoiceConfig } from '../types';
+import { Projection, projectVector } from './projection';
+import { ScaleFeatures, selectScale } from './scales';
+
+export const VOICE_KEYS = ['bass', 'tenor', 'alto', 'soprano'] as const;
+export type VoiceKey = typeof VOICE_KEYS[number];
+
+export const ROOTS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+export const METERS: MusicDNA['beatsPerBar'][] = [3, 4, 5];
+
+export const DEFAULT_INSTRUMENTS: Record<VoiceKey, InstrumentId> = {
+  bass: 'bassoon',
+  tenor: 'french-horn',
+  alto: 'violin-spiccato',
+  soprano: 'flute'
+};
+
+// What each projection axis drives, for display next to its reading
+export const AXIS_EFFECTS: Record<string, string> = {
+  mood: 'Mode',
+  energy: 'Tempo · Meter · Scale',
+  era: 'Key · Articulation · Scale',
+  sacred: 'Counterpoint · Consonance',
+  heritage: 'Scale family',
+  pc1: 'Bass register',
+  pc2: 'Tenor register',
+  pc3: 'Alto register',
+  pc4: 'Soprano register'
+};
+
+/** Field-by-field overrides layered on top of a derived DNA. */
+export type DNAOverrides = Partial<Omit<MusicDNA, VoiceKey>> & Partial<Record<VoiceKey, Partial<VoiceConfig>>>;
+
+// Maps an unbounded, zero-centred statistic onto 0..1 with 0 landing on 0.5
+const squash = (x: number) => 0.5 + Math.tanh(x) / 2;
+
+/** Each voice reads an equal quarter of the vector, whatever its dimension. */
+export const voiceSlice = (voice: VoiceKey, length: number): [number, number] => {
+  const i = VOICE_KEYS.indexOf(voice);
+  return [Math.floor(i * length / 4), Math.floor((i + 1) * length / 4)];
+};
+
+const rms = (values: Float32Array) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / (values.length || 1));
+
+const deriveVoice = (vector: Float32Array, voice: VoiceKey, overallRms: number): VoiceConfig => {
+  const [from, to] = voiceSlice(voice, vector.length);
+  const slice = vector.subarray(from, to);
+  const mean = slice.reduce((sum, v) => sum + v, 0) / (slice.length || 1);
+
+  return {
+    // Register: a slice leaning positive sits higher, negative lower
+    pitchRegister: squash(mean * 20),
+    // Density: slices carrying more energy than the vector as a whole play more often
+    rhythmicDensity: squash((rms(slice) / (overallRms || 1) - 1) * 3),
+    // Consonance: share of positive dimensions in the slice
+    consonance: slice.filter(v => v > 0).length / (slice.length || 1),
+    instrument: DEFAULT_INSTRUMENTS[voice]
+  };
+};
+
+// Without a projection the scale rules read single dimensions, spread so ±0.2 is a strong reading
+const rawFeatures = (vector: Float32Array): ScaleFeatures => ({
+  mood: Math.tanh(vector[10] * 5),
+  energy: Math.tanh(vector[0] * 5),
+  era: Math.tanh(vector[1] * 5),
+  sacred: Math.tanh(vector[2] * 5),
+  heritage: Math.tanh(vector[4] * 5)
+});
+
+const scaleFeatures = (vector: Float32Array, axes: Record<string, number>): ScaleFeatures => {
+  const raw = rawFeatures(vector);
+  return {
+    mood: axes.mood ?? raw.mood,
+    energy: axes.energy ?? raw.energy,
+    era: axes.era ?? raw.era,
+    sacred: axes.sacred ?? raw.sacred,
+    heritage: axes.heritage ?? raw.heritage
+  };
+};
+
+/**
+ * The original mapping: global fields from the leading "character"
+ * dimensions, voice fields from each voice's slice.
+ */
+const deriveRawDNA = (vector: Float32Array): MusicDNA => {
+  // Time Signature (v[0]): Waltz (3), Common (4), or Odd (5)
+  const v0 = vector[0];
+  // Energy / Tempo: Magnitude of raw vector determines BPM
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  const overallRms = rms(vector);
+
+  return {
+    bass: deriveVoice(vector, 'bass', overallRms),
+    tenor: deriveVoice(vector, 'tenor', overallRms),
+    alto: deriveVoice(vector, 'alto', overallRms),
+    soprano: deriveVoice(vector, 'soprano', overallRms),
+    tempo: 60 + (magnitude * 35),
+    // Tone & Mood: scale rules read off raw dimensions, index 10 setting the brightness
+    scaleType: selectScale(rawFeatures(vector)).scale,
+    rootNote: ROOTS[Math.abs(Math.floor(vector[3] * 120)) % 12],
+    beatsPerBar: v0 < -0.2 ? 3 : (v0 > 0.2 ? 5 : 4),
+    // Articulation (v[1]): Negative = Short/Staccato, Positive = Long/Legato
+    articulation: Math.max(-1, Math.min(1, vector[1])),
+    // Counterpoint (v[2]): Decide if voices are independent
+    counterpoint: vector[2] > 0.1,
+    voiceLeading: 'smooth'
+  };
+};
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/**
+ * Reads the musical DNA along the axes of a projection. Any axis
+ * missing from it falls back to the raw-dimension rule for that field.
+ */
+const deriveProjectedDNA = (vector: Float32Array, axes: Record<string, number>): MusicDNA => {
+  const raw = deriveRawDNA(vector);
+  const { mood, energy, era, sacred } = axes;
+
+  const voice = (key: VoiceKey, i: number): VoiceConfig => ({
+    ...raw[key],
+    // Register: one principal component per voice, bass on the strongest
+    pitchRegister: axes[`pc${i + 1}`] !== undefined ? (axes[`pc${i + 1}`] + 1) / 2 : raw[key].pitchRegister,
+    // Consonance: sacred places pull every voice towards the chord
+    consonance: sacred !== undefined ? clamp01((raw[key].consonance + (1 - sacred) / 2) / 2) : raw[key].consonance
+  });
+
+  return {
+    bass: voice('bass', 0),
+    tenor: voice('tenor', 1),
+    alto: voice('alto', 2),
+    soprano: voice('soprano', 3),
+    // Energy: tranquil places waltz slowly, bustling ones hurry in five
+    tempo: energy !== undefined ? 60 + (energy + 1) * 40 : raw.tempo,
+    beatsPerBar: energy !== undefined ? (energy < -1 / 3 ? 3 : energy > 1 / 3 ? 5 : 4) : raw.beatsPerBar,
+    // Scale: the rules in scales.ts, mood setting the mode's brightness
+    scaleType: selectScale(scaleFeatures(vector, axes)).scale,
+    // Era: ancient places sit on the flat side of the circle of fifths and play legato, modern ones sharpen and shorten
+    rootNote: era !== undefined ? ROOTS[((Math.round(era * 5) * 7) % 12 + 12) % 12] : raw.rootNote,
+    articulation: era !== undefined ? -era : raw.articulation,
+    counterpoint: sacred !== undefined ? sacred < 0 : raw.counterpoint,
+    voiceLeading: raw.voiceLeading
+  };
+};
+
+/** Readings of a vector on the projection's axes, keyed by axis id. */
+export const readAxes = (vector: Float32Array, projection: Projection | null): Record<string, number> => {
+  if (!projection) return {};
+  return Object.fromEntries(projectVector(projection, vector).map(r => [r.axis.id, r.value]));
+};
+
+/** The scale rule that picked the vector's scale, in words. */
+export const explainScale = (vector: Float32Array, projection: Projection | null = null) =>
+  selectScale(scaleFeatures(vector, readAxes(vector, projection))).reason;
+
+/**
+ * Reads the musical DNA of a vector. With a projection the fields come from
+ * its musical axes; otherwise from raw dimensions and per-voice slices.
+ */
+export const deriveDNA = (vector: Float32Array, projection: Projection | null = null): MusicDNA => {
+  const axes = readAxes(vector, projection);
+  return Object.keys(axes).length > 0 ? deriveProjectedDNA(vector, axes) : deriveRawDNA(vector);
+};
+
+export const applyOverrides = (dna: MusicDNA, overrides: DNAOverrides = {}): MusicDNA => {
+  const { bass, tenor, alto, soprano, ...globals } = overrides;
+  return {
+    ...dna,
+    ...globals,
+    bass: { ...dna.bass, ...bass },
+    tenor: { ...dna.tenor, ...tenor },
+    alto: { ...dna.alto, ...alto },
+    soprano: { ...dna.soprano, ...soprano }
+  };
+};
+
+export const hasOverrides = (overrides: DNAOverrides) =>
+  Object.values(overrides).some(v => v !== undefined && (typeof v !== 'object' || Object.keys(v).length > 0));
@@ -1,60 +1,64 @@
 import * as Tone from 'tone';
-
-const BASE = "./samples";
-
-export type CompositionPhase = 'start' | 'traversal' | 'end' | 'idle';
-
-interface VoiceConfig {
-  note: string;
-  url: string;
-  oct: number;
-  slice: [number, number];
+import { ComposeOptions, composeScore, createTimeline, Score, ScoreEvent } from './score';
+import { loadMixerSettings, MixerSettings, saveMixerSettings } from './mixer';
+import { SpatialPoint, spatialMoves } from './spatial';
+import {
+  createEnsemble, DEFAULT_ENSEMBLE_URL, ENSEMBLE_PARTS, Ensemble, EnsembleBuffers, EnsembleManifest,
+  loadEnsembleBuffers, loadManifest, REVERB_DECAY, triggerEvent
+} from './ensemble';
+
+const initialLoadedStates = (manifest: EnsembleManifest | null): Record<string, boolean> => ({
+  ...Object.fromEntries(Object.keys(manifest?.instruments ?? {}).map(id => [id, false])),
+  perc: false
+});
+
+export type CompositionPhase = 'start' | 'traversal' | 'end' | 'suite' | 'walk' | 'locale' | 'article' | 'idle';
+
+export interface PlaybackOptions {
+  /** Repeat the score until stopped instead of fading out after its last bar. */
+  loop?: boolean;
+  /** Where the music sits over the score, used when spatial audio is on */
+  spatial?: SpatialPoint[];
+  /** Seconds to fade in from silence */
+  fadeIn?: number;
+  /** Played straight after this score instead of fading out */
+  then?: { score: Score; phase: CompositionPhase; options?: PlaybackOptions };
 }
 
-// INSTRUMENTATION: Orchestral Chamber Ensemble
-const VOICE_CONFIGS: Record<string, VoiceConfig> = {
-  bass: { note: 'A#1', url: `${BASE}/bassoon_As1_1_mezzo-piano_normal.mp3`, oct: 1, slice: [0, 96] }, 
-  tenor: { note: 'A3', url: `${BASE}/french-horn-A3.mp3`, oct: 2, slice: [96, 192] },
-  alto: { note: 'A3', url: `${BASE}/violin_A3_phrase_forte_arco-spiccato.mp3`, oct: 3, slice: [192, 288] },
-  soprano: { note: 'A4', url: `${BASE}/flute_A4_1_mezzo-piano_normal.mp3`, oct: 4, slice: [288, 384] }
-};
-
-const PERC_MAPPING = {
-  kick: `${BASE}/tom-toms__05_mezzo-forte_struck-singly.mp3`,    // C2
-  snare: `${BASE}/woodblock__025_mezzo-forte_struck-singly.mp3`, // D2
-  hat: `${BASE}/triangle__long_piano_struck-singly.mp3`,         // E2
-  impact: `${BASE}/tam-tam__phrase_mezzo-piano_rimshot.mp3`      // F2
-};
-
-const MODES = {
-  bright: [['C', 'D', 'E', 'Gb', 'G', 'A', 'B'], ['C', 'D', 'E', 'F', 'G', 'A', 'B']],
-  dark: [['C', 'D', 'Eb', 'F', 'G', 'Ab', 'Bb'], ['C', 'Db', 'Eb', 'F', 'G', 'Ab', 'Bb']]
-};
-
-const ROOTS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+// Silence floor for the closing fade, in dB
+const FADE_FLOOR = -60;
+export const CROSSFADE_SECONDS = 4;
 
 class MusicEngine {
-  private samplers: Map<string, Tone.Sampler> = new Map();
-  private percSampler: Tone.Sampler | null = null;
-  private reverb: Tone.Reverb;
-  private delay: Tone.FeedbackDelay;
-  private loop: Tone.Loop | null = null;
+  private buffers: EnsembleBuffers = { manifest: null, files: {} };
+  private manifest: EnsembleManifest | null = null;
+  private manifestUrl = DEFAULT_ENSEMBLE_URL;
+  private ensemble: Ensemble | null = null;
+  private mixerSettings: MixerSettings = loadMixerSettings();
+  private part: Tone.Part | null = null;
   
-  public loadedStates: Record<string, boolean> = { bass: false, tenor: false, alto: false, soprano: false, perc: false };
+  public loadedStates: Record<string, boolean> = initialLoadedStates(null);
   public isInitialized = false;
   public currentPhase: CompositionPhase = 'idle';
+  public currentScore: Score | null = null;
   private onPhaseChange?: (phase: CompositionPhase) => void;
-  private currentIndices: number[] = [0, 0, 0, 0];
-
-  constructor() {
-    this.reverb = new Tone.Reverb({ decay: 4, wet: 0.35 }).toDestination();
-    this.delay = new Tone.FeedbackDelay("8n.", 0.25).connect(this.reverb);
-  }
+  private onSectionChange?: (label: string | null) => void;
+  private onNote?: (event: ScoreEvent) => void;
 
   setPhaseCallback(cb: (phase: CompositionPhase) => void) {
     this.onPhaseChange = cb;
   }
 
+  /** Called with each section's label as playback reaches it, and null on stop. */
+  setSectionCallback(cb: (label: string | null) => void) {
+    this.onSectionChange = cb;
+  }
+
+  /** Called with each note as it sounds, in time with the audio. */
+  setNoteCallback(cb: ((event: ScoreEvent) => void) | undefined) {
+    this.onNote = cb;
+  }
+
   private updatePhase(phase: CompositionPhase) {
     this.currentPhase = phase;
     if (this.onPhaseChange) this.onPhaseChange(phase);
@@ -64,159 +68,213 @@ class MusicEngine {
     if (Tone.context.state !== 'running') await Tone.start();
     this.isInitialized = true;
 
-    // Load Melodic Samplers (Woodwinds/Strings/Brass)
-    const voicePromises = Object.entries(VOICE_CONFIGS).map(([key, config]) => {
-      return new Promise<void>((resolve) => {
-        const sampler = new Tone.Sampler({
-          urls: { [config.note]: config.url },
-          onload: () => { this.loadedStates[key] = true; resolve(); }
-        }).connect(this.delay);
-        sampler.volume.value = -16; 
-        this.samplers.set(key, sampler);
-      });
-    });
+    if (!this.manifest) {
+      const problems = await this.useEnsemble(this.manifestUrl);
+      if (problems.length) throw new Error(problems.join('\n'));
+      return;
+    }
 
-    // Load Percussion (Toms/Woodblock/Tam-tam)
-    const percPromise = new Promise<void>((resolve) => {
-      this.percSampler = new Tone.Sampler({
-        urls: { "C2": PERC_MAPPING.kick, "D2": PERC_MAPPING.snare, "E2": PERC_MAPPING.hat, "F2": PERC_MAPPING.impact },
-        onload: () => { this.loadedStates['perc'] = true; resolve(); }
-      }).connect(this.reverb);
-      this.percSampler.volume.value = -12;
+    // Load the ensemble's melodic samplers and percussion kit
+    const manifest = this.manifest;
+    const buffers = await loadEnsembleBuffers(manifest, this.manifestUrl, (key, ok) => {
+      if (this.manifest === manifest) this.loadedStates[key] = ok;
     });
+    // A newer ensemble was picked while these decoded
+    if (this.manifest !== manifest) return;
+    this.buffers = buffers;
+    this.ensemble = createEnsemble(this.buffers, ENSEMBLE_PARTS, this.mixerSettings);
+  }
+
+  /**
+   * Switches to the ensemble described by a manifest. An invalid manifest
+   * leaves the current ensemble playing and returns its problems.
+   */
+  async useEnsemble(url: string): Promise<string[]> {
+    const { manifest, problems } = await loadManifest(url);
+    if (!manifest || problems.length) return problems;
+
+    this.stop();
+    this.ensemble?.dispose();
+    this.ensemble = null;
+    this.manifest = manifest;
+    this.manifestUrl = url;
+    this.loadedStates = initialLoadedStates(manifest);
+    if (this.isInitialized) await this.load();
+    return [];
+  }
+
+  /** The active ensemble's manifest, once one has loaded. */
+  getManifest(): EnsembleManifest | null {
+    return this.manifest;
+  }
+
+  /** Sample buffers decoded by `load()`, for rendering outside the live context. */
+  getBuffers(): EnsembleBuffers {
+    return this.buffers;
+  }
+
+  getMixerSettings(): MixerSettings {
+    return this.mixerSettings;
+  }
+
+  /** Applies a mix to the live ensemble straight away and saves it for the next session. */
+  setMixerSettings(settings: MixerSettings) {
+    this.mixerSettings = settings;
+    this.ensemble?.mixer.apply(settings);
+    saveMixerSettings(settings);
+  }
+
+  /** Master meter reading, or silence before the ensemble exists. */
+  getLevel(): { db: number; reduction: number } {
+    return this.ensemble?.mixer.level() ?? { db: -Infinity, reduction: 0 };
+  }
+
+  /** Turns the listener to face a compass heading, so landmarks stay put as the device rotates. */
+  setListenerHeading(heading: number) {
+    const rad = heading * Math.PI / 180;
+    const listener = Tone.getListener();
+    listener.forwardX.value = Math.sin(rad);
+    listener.forwardZ.value = -Math.cos(rad);
+  }
+
+  async reset() {
+    this.stop();
+    this.ensemble?.dispose();
+    this.ensemble = null;
+    this.loadedStates = initialLoadedStates(this.manifest);
+    await this.load();
+  }
 
-    await Promise.all([...voicePromises, percPromise]);
+  async play(vector: Float32Array, phase: CompositionPhase, options?: ComposeOptions, playback?: PlaybackOptions) {
+    await this.playScore(composeScore(vector, options), phase, playback);
   }
 
-  async play(vector: Float32Array, phase: CompositionPhase) {
-    // 1. HARD RESET: Clear global transport and local loops
+  /**
+   * Schedules a composed score on the Transport. Looped scores repeat until
+   * stopped; otherwise the last bar fades out with the reverb tail and the
+   * engine returns to idle.
+   */
+  async playScore(score: Score, phase: CompositionPhase, { loop = false, spatial, fadeIn, then }: PlaybackOptions = {}) {
+    // 1. HARD RESET: Clear global transport and local parts
     this.stop(); 
     if (Tone.context.state !== 'running') await Tone.start();
+    this.currentScore = score;
     this.updatePhase(phase);
 
-    // 2. CHARACTER EXTRACTION (Optimized for non-normalized data)
-    // Time Signature (v[0]): Waltz (3), Common (4), or Odd (5)
-    const v0 = vector[0];
-    const beatsPerBar = v0 < -0.2 ? 3 : (v0 > 0.2 ? 5 : 4);
-    const stepsPerBar = beatsPerBar * 4;
-
-    // Articulation (v[1]): Negative = Short/Staccato, Positive = Long/Legato
-    const articulation = vector[1]; 
+    // 2. TEMPO MAP: Re-applied at every bar that changes it, including the loop point
+    const toTicks = (step: number) => `${Math.round(step * Tone.Transport.PPQ / 4)}i`;
+    Tone.Transport.bpm.value = score.bars[0].bpm;
+    score.bars.forEach((bar, i) => {
+      if (i > 0 && bar.bpm === score.bars[i - 1].bpm) return;
+      Tone.Transport.schedule((time) => Tone.Transport.bpm.setValueAtTime(bar.bpm, time), toTicks(bar.startStep));
+    });
 
-    // Counterpoint (v[2]): Decide if voices are independent
-    const isCounterpoint = vector[2] > 0.1;
+    // 3. EVENTS: Durations resolved against the tempo map up front
+    const timeAt = createTimeline(score);
+    const events = score.events.map(e => ({
+      time: toTicks(e.time),
+      event: e,
+      duration: timeAt(e.time + e.duration) - timeAt(e.time)
+    }));
+
+    this.part = new Tone.Part((time, { event, duration }) => {
+      if (this.ensemble) triggerEvent(this.ensemble, event, time, duration);
+      if (this.onNote) Tone.Draw.schedule(() => this.onNote?.(event), time);
+    }, events).start(0);
+
+    // 4. SPACE: Follow the path beat by beat so sweeps curve round the listener; scores with no place bypass the panner
+    this.ensemble?.mixer.spatialise(!!spatial?.length);
+    if (spatial?.length) {
+      spatialMoves(spatial, score.totalSteps).forEach(({ from, to }) => {
+        Tone.Transport.schedule((time) => {
+          this.ensemble?.mixer.place(to, time, timeAt(to.step) - timeAt(from));
+        }, toTicks(from));
+      });
+    }
 
-    // Energy / Tempo: Magnitude of raw vector determines BPM
-    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-    Tone.Transport.bpm.value = 60 + (magnitude * 35); 
+    // 5. SECTIONS: Announced in time with the audio, e.g. to show movement names
+    score.sections.forEach(section => {
+      Tone.Transport.schedule((time) => {
+        Tone.Draw.schedule(() => this.onSectionChange?.(section.label), time);
+      }, toTicks(section.startStep));
+    });
 
-    // Tone & Mood: Using raw value at index 10 to pick Bright vs Dark
-    const activeScale = vector[10] > 0 ? MODES.bright[0] : MODES.dark[0];
-    const rootNote = ROOTS[Math.abs(Math.floor(vector[3] * 120)) % 12];
-    
-    // 3. INITIAL IMPACT: Signal the start of a new data piece
-    if (this.percSampler && this.loadedStates['perc']) {
-      this.percSampler.triggerAttack("F2", "+0.1", 0.6);
+    // 6. ENDING: Loop back to the top, hand over to the next score, or fade through the final bar and tail, then go idle
+    if (loop) {
+      Tone.Transport.loop = true;
+      Tone.Transport.loopStart = 0;
+      Tone.Transport.loopEnd = toTicks(score.totalSteps);
+    } else if (then) {
+      Tone.Transport.schedule((time) => {
+        Tone.Draw.schedule(() => this.playScore(then.score, then.phase, then.options), time);
+      }, toTicks(score.totalSteps));
+    } else {
+      const lastBar = score.bars[score.bars.length - 1];
+      const fadeSeconds = timeAt(score.totalSteps) - timeAt(lastBar.startStep) + REVERB_DECAY;
+      const tailTicks = Math.round(REVERB_DECAY * (lastBar.bpm / 60) * Tone.Transport.PPQ);
+      Tone.Transport.schedule((time) => {
+        this.ensemble?.output.volume.linearRampTo(FADE_FLOOR, fadeSeconds, time);
+      }, toTicks(lastBar.startStep));
+      Tone.Transport.schedule((time) => {
+        Tone.Draw.schedule(() => this.stop(), time);
+      }, `${Math.round(score.totalSteps * Tone.Transport.PPQ / 4) + tailTicks}i`);
     }
 
-    this.currentIndices = [0, 0, 0, 0];
-    let step = 0;
-
-    // 4. MAIN SEQUENCER LOOP
-    this.loop = new Tone.Loop((time) => {
-      const stepInBar = step % stepsPerBar;
-      const beatInBar = Math.floor(stepInBar / 4);
-      const isDownbeat = stepInBar === 0;
-      const isQuarterNote = step % 4 === 0;
-
-      // --- PERCUSSION SECTION ---
-      if (this.percSampler && this.loadedStates['perc']) {
-        // Structural Kick (Tom)
-        if (isDownbeat) this.percSampler.triggerAttack("C2", time, 0.5);
-        
-        // Rhythmic Backbeat (Woodblock)
-        let isBackbeat = false;
-        if (beatsPerBar === 3) isBackbeat = beatInBar === 1; // Beat 2
-        else if (beatsPerBar === 4) isBackbeat = beatInBar === 1 || beatInBar === 3; // Beats 2 & 4
-        else isBackbeat = beatInBar === 2 || beatInBar === 4; // Beats 3 & 5
-
-        if (isQuarterNote && isBackbeat) {
-          this.percSampler.triggerAttack("D2", time, 0.3);
-        }
-
-        // Texture (Triangle) on local data spikes
-        if (Math.abs(vector[step % vector.length]) > 0.6) {
-          this.percSampler.triggerAttack("E2", time, 0.2);
-        }
-      }
-
-      // --- MELODIC SECTION ---
-      const voiceKeys = ['bass', 'tenor', 'alto', 'soprano'];
-      voiceKeys.forEach((key, i) => {
-        const sampler = this.samplers.get(key);
-        if (!sampler || !this.loadedStates[key]) return;
-
-        // Counterpoint logic: Offset data-lookup if enabled
-        const dataOffset = isCounterpoint ? i * 25 : 0;
-        const val = vector[(VOICE_CONFIGS[key].slice[0] + step + dataOffset) % vector.length];
-
-        // GATING: Determine if this instrument should play this 16th note
-        let shouldPlay = false;
-        if (i === 0) shouldPlay = isDownbeat; // Bassoon anchors the 1
-        else if (i === 1) shouldPlay = isQuarterNote; // Horn anchors the beats
-        else shouldPlay = Math.abs(val) > 0.15; // Alto/Soprano respond to data peaks
-
-        if (shouldPlay) {
-          // Note selection: map raw values to scale steps
-          const jump = Math.round(val * 12);
-          this.currentIndices[i] = Math.abs(this.currentIndices[i] + jump) % activeScale.length;
-          const noteName = activeScale[this.currentIndices[i]];
-          
-          let octave = VOICE_CONFIGS[key].oct;
-          if (Math.abs(val) > 0.3) octave += (val > 0 ? 1 : -1);
-
-          const finalNote = Tone.Frequency(noteName + octave).transpose(
-            ROOTS.indexOf(rootNote) - ROOTS.indexOf('C')
-          );
-
-          // DURATION: Affected by both instrument type and the Articulation (v[1])
-          const durations = ["2n", "4n", "32n", "8n"];
-          let dur = durations[i];
-          // If articulation is low, force everything to staccato (short)
-          if (i !== 2 && articulation < -0.1) dur = "32n"; 
-          // Note: i=2 is Spiccato Violin, always remains "32n" (short)
-
-          // VELOCITY: Tie intensity directly to data value
-          const velocity = Math.min(0.8, 0.2 + Math.abs(val * 0.7));
-
-          sampler.triggerAttackRelease(finalNote, dur, time, velocity);
-        }
-      });
-
-      step++;
-    }, "16n").start(0);
+    if (fadeIn && this.ensemble) {
+      this.ensemble.output.volume.value = FADE_FLOOR;
+      this.ensemble.output.volume.linearRampTo(0, fadeIn, Tone.now());
+    }
 
-    // 5. START TRANSPORT
     Tone.Transport.seconds = 0; 
     Tone.Transport.start();
   }
 
+  /**
+   * Starts a score on a fresh ensemble while the current one fades out. The
+   * outgoing ensemble keeps ringing the notes it was holding and its reverb
+   * tail, so the two overlap rather than cut.
+   */
+  async crossfadeTo(score: Score, phase: CompositionPhase, options: PlaybackOptions = {}, seconds = CROSSFADE_SECONDS) {
+    const outgoing = this.ensemble;
+    if (!outgoing || this.currentPhase === 'idle') return this.playScore(score, phase, options);
+
+    const incoming = createEnsemble(this.buffers, ENSEMBLE_PARTS, this.mixerSettings);
+    await incoming.ready;
+    // Detach the outgoing ensemble first so stopping the Transport doesn't silence it
+    this.ensemble = incoming;
+    outgoing.output.volume.cancelScheduledValues(Tone.now());
+    outgoing.output.volume.linearRampTo(FADE_FLOOR, seconds, Tone.now());
+    setTimeout(() => outgoing.dispose(), (seconds + REVERB_DECAY) * 1000);
+
+    await this.playScore(score, phase, { ...options, fadeIn: seconds });
+  }
+
+  /** Moves the music to a point straight away, e.g. as the listener walks. */
+  moveTo(point: Pick<SpatialPoint, 'bearing' | 'distance'>, rampSeconds = 1) {
+    this.ensemble?.mixer.place(point, Tone.now(), rampSeconds);
+  }
+
   stop() {
     // Stop and clear all global Tone events
     Tone.Transport.stop();
     Tone.Transport.cancel(0); 
     Tone.Transport.seconds = 0; 
 
-    // Cleanup local loop
-    if (this.loop) {
-      this.loop.stop();
-      this.loop.dispose();
-      this.loop = null;
+    Tone.Transport.loop = false;
+
+    // Cleanup local part
+    if (this.part) {
+      this.part.stop();
+      this.part.dispose();
+      this.part = null;
     }
+    this.currentScore = null;
+    this.onSectionChange?.(null);
 
-    // Silence all active samples
-    this.samplers.forEach(s => s.releaseAll());
-    if (this.percSampler) this.percSampler.releaseAll();
+    // Silence all active samples and undo any closing fade
+    this.ensemble?.releaseAll();
+    this.ensemble?.output.volume.cancelScheduledValues(Tone.now());
+    if (this.ensemble) this.ensemble.output.volume.value = 0;
     
     this.updatePhase('idle');
   }
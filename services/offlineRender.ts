@@ -0,0 +1,70 @@
+import * as Tone from 'tone';
+import { createTimeline, Score, scoreDuration } from './score';
+import { createEnsemble, ENSEMBLE_PARTS, EnsembleBuffers, EnsemblePart, REVERB_DECAY, triggerEvent } from './ensemble';
+import { encodeWav, WavBitDepth } from './wavEncoder';
+import { createZip, ZipEntry } from './zip';
+import { DEFAULT_MIXER, MixerSettings, withoutMutes } from './mixer';
+import { SpatialPoint, spatialMoves } from './spatial';
+
+/**
+ * Renders a score through the same samplers and mixer as the live engine,
+ * faster than real time, with the reverb tail appended.
+ */
+export const renderScore = async (
+  score: Score,
+  buffers: EnsembleBuffers,
+  parts: EnsemblePart[] = ENSEMBLE_PARTS,
+  mix: MixerSettings = DEFAULT_MIXER,
+  spatial?: SpatialPoint[]
+): Promise<AudioBuffer> => {
+  const timeAt = createTimeline(score);
+
+  const rendered = await Tone.Offline(async () => {
+    const ensemble = createEnsemble(buffers, parts, mix);
+    await ensemble.ready;
+
+    ensemble.mixer.spatialise(!!spatial?.length);
+    if (spatial?.length) {
+      spatialMoves(spatial, score.totalSteps).forEach(({ from, to }) => {
+        ensemble.mixer.place(to, timeAt(from), timeAt(to.step) - timeAt(from));
+      });
+    }
+
+    score.events.forEach(e => {
+      const start = timeAt(e.time);
+      triggerEvent(ensemble, e, start, timeAt(e.time + e.duration) - start);
+    });
+  }, scoreDuration(score) + REVERB_DECAY, 2);
+
+  return rendered.get() as AudioBuffer;
+};
+
+export const bounceWav = async (
+  score: Score,
+  buffers: EnsembleBuffers,
+  bitDepth: WavBitDepth,
+  mix?: MixerSettings,
+  spatial?: SpatialPoint[]
+): Promise<Blob> => {
+  const buffer = await renderScore(score, buffers, ENSEMBLE_PARTS, mix, spatial);
+  return new Blob([encodeWav(buffer, bitDepth)], { type: 'audio/wav' });
+};
+
+/** Renders each part that plays in the score on its own and packs the WAVs into a zip. */
+export const bounceStems = async (
+  score: Score,
+  buffers: EnsembleBuffers,
+  bitDepth: WavBitDepth,
+  baseName: string,
+  mix: MixerSettings = DEFAULT_MIXER,
+  spatial?: SpatialPoint[]
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  // Rendered one at a time to keep peak memory to a single offline context
+  for (const part of ENSEMBLE_PARTS.filter(p => score.events.some(e => e.voice === p))) {
+    // Each stem keeps its strip's level, pan and sends even if it is muted or another part is soloed
+    const buffer = await renderScore(score, buffers, [part], withoutMutes(mix), spatial);
+    entries.push({ name: `${baseName}-${part}.wav`, data: encodeWav(buffer, bitDepth) });
+  }
+  return createZip(entries);
+};
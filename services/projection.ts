@@ -0,0 +1,184 @@
+// Schema of the projection asset this build understands
+export const PROJECTION_SCHEMA = 1;
+export const PROJECTION_URL = './projection.json';
+export const PCA_COMPONENTS = 4;
+// Spread assumed for anchor axes until they are fitted on a corpus
+const UNFITTED_SCALE = 0.05;
+
+export interface AxisPole {
+  label: string;
+  /** Anchor phrases whose embeddings define this end; empty for PCA axes. */
+  phrases: string[];
+}
+
+export interface ProjectionAxis {
+  id: string;
+  kind: 'anchor' | 'pca';
+  negative: AxisPole;
+  positive: AxisPole;
+  /** Unit direction in embedding space; null until resolved from the anchor phrases. */
+  direction: number[] | null;
+  /** Corpus mean and spread along the direction, so readings land around 0 */
+  center: number;
+  scale: number;
+}
+
+export interface Projection {
+  schema: number;
+  /** Revision of the fitted asset, bumped on every refit */
+  version: number;
+  model: string;
+  dims: number;
+  fittedAt: string | null;
+  corpusSize: number;
+  axes: ProjectionAxis[];
+}
+
+export interface AxisReading {
+  axis: ProjectionAxis;
+  /** -1 (negative pole) to 1 (positive pole) */
+  value: number;
+}
+
+export interface CorpusEntry {
+  title: string;
+  embedding: Float32Array;
+}
+
+type Embed = (text: string) => Promise<Float32Array>;
+
+const unit = (vec: ArrayLike<number>): number[] => {
+  const n = Math.sqrt(Array.prototype.reduce.call(vec, (sum: number, v: number) => sum + v * v, 0) as number) || 1;
+  return Array.from(vec, v => v / n);
+};
+
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const meanOf = (vectors: number[][]): number[] =>
+  vectors[0].map((_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length);
+
+// Anchor axes point from the mean of the negative phrases to the mean of the positive ones
+const anchorDirection = async (axis: ProjectionAxis, embed: Embed): Promise<number[]> => {
+  const side = async (pole: AxisPole) => meanOf(await Promise.all(pole.phrases.map(async p => unit(await embed(p)))));
+  const [neg, pos] = await Promise.all([side(axis.negative), side(axis.positive)]);
+  return unit(pos.map((v, i) => v - neg[i]));
+};
+
+/**
+ * An asset fitted with another model says nothing about this one's space:
+ * its anchor axes are resolved afresh from their phrases and its PCA axes
+ * dropped until the next fit.
+ */
+const forModel = (projection: Projection, model: string): Projection => projection.model === model ? projection : {
+  ...projection,
+  model,
+  fittedAt: null,
+  corpusSize: 0,
+  axes: projection.axes
+    .filter(a => a.kind === 'anchor')
+    .map(a => ({ ...a, direction: null, center: 0, scale: UNFITTED_SCALE }))
+};
+
+/**
+ * Fetches the projection asset and resolves any anchor axis that ships
+ * without a fitted direction by embedding its phrases with `model`.
+ */
+export const loadProjection = async (embed: Embed, model: string, url: string = PROJECTION_URL): Promise<Projection> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Projection asset missing (${res.status})`);
+  const asset: Projection = await res.json();
+  if (asset.schema !== PROJECTION_SCHEMA) {
+    throw new Error(`Projection schema ${asset.schema} is not supported (expected ${PROJECTION_SCHEMA})`);
+  }
+
+  const projection = forModel(asset, model);
+  for (const axis of projection.axes) {
+    if (!axis.direction && axis.kind === 'anchor') axis.direction = await anchorDirection(axis, embed);
+  }
+  // Unfitted axes take their size from the model that resolved them
+  if (!projection.fittedAt) projection.dims = projection.axes.find(a => a.direction)?.direction?.length ?? projection.dims;
+  projection.axes = projection.axes.filter(a => a.direction?.length === projection.dims);
+  return projection;
+};
+
+/** Reads a vector along every axis. Empty when the projection was fitted for another embedding size. */
+export const projectVector = (projection: Projection, vector: Float32Array): AxisReading[] => {
+  if (vector.length !== projection.dims) return [];
+  const v = unit(vector);
+  return projection.axes.map(axis => ({
+    axis,
+    value: Math.tanh((dot(v, axis.direction!) - axis.center) / (axis.scale || 1))
+  }));
+};
+
+// Leading eigenvector of the covariance by power iteration, without forming the matrix
+const principalComponent = (centred: number[][], dims: number): number[] => {
+  let pc = unit(Array.from({ length: dims }, (_, i) => Math.sin(i + 1)));
+  for (let iter = 0; iter < 100; iter++) {
+    const next = new Array(dims).fill(0);
+    centred.forEach(row => {
+      const w = dot(row, pc);
+      row.forEach((x, i) => { next[i] += w * x; });
+    });
+    pc = unit(next);
+  }
+  return pc;
+};
+
+const spread = (values: number[]) => {
+  const center = values.reduce((a, b) => a + b, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - center) ** 2, 0) / values.length);
+  return { center, scale: std > 1e-6 ? std : 1 };
+};
+
+/**
+ * Refits a projection over a corpus of embeddings: anchor directions are
+ * recomputed and centred on the corpus, and the leading principal components
+ * are appended as extra axes whose poles are named after the corpus extremes.
+ */
+export const fitProjection = async (base: Projection, corpus: CorpusEntry[], embed: Embed): Promise<Projection> => {
+  const dims = corpus[0].embedding.length;
+  const normalised = corpus.map(c => unit(c.embedding));
+
+  const anchors: ProjectionAxis[] = [];
+  for (const axis of base.axes.filter(a => a.kind === 'anchor')) {
+    const direction = await anchorDirection(axis, embed);
+    anchors.push({ ...axis, direction, ...spread(normalised.map(v => dot(v, direction))) });
+  }
+
+  const mean = meanOf(normalised);
+  let centred = normalised.map(v => v.map((x, i) => x - mean[i]));
+  const components: ProjectionAxis[] = [];
+  for (let k = 0; k < Math.min(PCA_COMPONENTS, corpus.length - 1); k++) {
+    const direction = principalComponent(centred, dims);
+    const scores = normalised.map(v => dot(v, direction));
+    const lowest = scores.indexOf(Math.min(...scores));
+    const highest = scores.indexOf(Math.max(...scores));
+    components.push({
+      id: `pc${k + 1}`,
+      kind: 'pca',
+      negative: { label: corpus[lowest].title, phrases: [] },
+      positive: { label: corpus[highest].title, phrases: [] },
+      direction,
+      ...spread(scores)
+    });
+    // Deflate so the next iteration finds the following component
+    centred = centred.map(row => {
+      const w = dot(row, direction);
+      return row.map((x, i) => x - w * direction[i]);
+    });
+  }
+
+  return {
+    ...base,
+    version: base.version + 1,
+    dims,
+    fittedAt: new Date().toISOString(),
+    corpusSize: corpus.length,
+    axes: [...anchors, ...components]
+  };
+};
@@ -0,0 +1,91 @@
+import { PercHit } from './score';
+
+// Dimensions 16–23 are read as the rhythm segment
+const RHYTHM_DIMS = 16;
+
+/**
+ * Euclidean rhythm: `k` hits spread as evenly as possible over `n` steps,
+ * rotated `rotation` steps to the left. E(3, 8) is the tresillo x..x..x.
+ */
+export const euclid = (k: number, n: number, rotation = 0): boolean[] => {
+  const base = Array.from({ length: n }, (_, i) => (i * k) % n < k);
+  return base.map((_, i) => base[(i + rotation) % n]);
+};
+
+export interface PercLayer {
+  hit: PercHit;
+  pattern: boolean[];
+  velocity: number;
+  /** 'bar' layers restart every bar; 'cycle' layers run over the whole score against the meter */
+  phase: 'bar' | 'cycle';
+}
+
+// 0..1 reading of a dimension, 0 landing on 0.5
+const level = (value: number) => 0.5 + Math.tanh(value * 10) / 2;
+const pick = <T>(options: T[], value: number) => options[Math.min(options.length - 1, Math.floor(value * options.length))];
+
+/**
+ * GROOVE: The tom and woodblock are Euclidean patterns over the bar, the
+ * tom always holding the downbeat; the triangle and ghost woodblock cycle
+ * over their own lengths, so they drift against the meter as polyrhythms.
+ */
+export const deriveGroove = (vector: Float32Array, stepsPerBar: number): PercLayer[] => {
+  const l = (i: number) => level(vector[(RHYTHM_DIMS + i) % vector.length]);
+  const beats = stepsPerBar / 4;
+
+  const kick = euclid(1 + Math.round(l(0) * (beats - 1)), stepsPerBar);
+  const snare = euclid(1 + Math.round(l(1) * 3), stepsPerBar, Math.round(l(2) * stepsPerBar));
+  // The downbeat belongs to the tom
+  snare[0] = false;
+
+  const hatCycle = pick([3, 5, 6, 7], l(3));
+  const ghostCycle = pick([5, 7, 9, 11], l(6));
+
+  return [
+    { hit: 'kick', pattern: kick, velocity: 0.5, phase: 'bar' },
+    { hit: 'snare', pattern: snare, velocity: 0.3, phase: 'bar' },
+    { hit: 'hat', pattern: euclid(1 + Math.round(l(4) * (hatCycle - 2)), hatCycle, Math.round(l(5) * hatCycle)), velocity: 0.2, phase: 'cycle' },
+    { hit: 'snare', pattern: euclid(2 + Math.round(l(7) * 2), ghostCycle), velocity: 0.12, phase: 'cycle' }
+  ];
+};
+
+/** Whether a layer hits at `step`, `stepInBar` steps into its bar. */
+export const layerHits = (layer: PercLayer, step: number, stepInBar: number) =>
+  layer.pattern[(layer.phase === 'bar' ? stepInBar : step) % layer.pattern.length];
+
+/**
+ * FILL: A woodblock run into the next section, Euclidean so it breathes,
+ * crescendoing from the tom. Two beats long when the segment reads positive, one otherwise.
+ */
+export const deriveFill = (vector: Float32Array, stepsPerBar: number): { length: number; hits: { hit: PercHit; offset: number; velocity: number }[] } => {
+  const length = vector[(RHYTHM_DIMS + 8) % vector.length] > 0 && stepsPerBar >= 16 ? 8 : 4;
+  const run = euclid(Math.round(length * 0.75), length);
+  const hits = [{ hit: 'kick' as PercHit, offset: 0, velocity: 0.5 }];
+  run.forEach((on, i) => { if (on) hits.push({ hit: 'snare', offset: i, velocity: 0.2 + 0.4 * (i + 1) / length }); });
+  return { length, hits };
+};
+
+// Deterministic pseudo-random in -1..1, so the same vector always grooves the same way
+const jitter = (seed: number) => {
+  const x = Math.sin(seed * 12.9898) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+/**
+ * FEEL: Legato articulation swings the off-beat 16ths (up to a triplet
+ * feel), staccato stays on the grid; humanisation loosens timing and
+ * velocity most in between, where the articulation is least decided.
+ */
+export const grooveFeel = (articulation: number) => ({
+  swing: Math.max(0, articulation) / 3,
+  humanise: (1 - Math.abs(articulation)) * 0.06
+});
+
+/** Time offset in steps and velocity factor for an event at `time`. */
+export const feelAt = (time: number, feel: { swing: number; humanise: number }, seed: number) => {
+  const offbeat = Math.floor(time) % 2 === 1;
+  return {
+    offset: (offbeat ? feel.swing : 0) + jitter(seed) * feel.humanise,
+    velocity: 1 + jitter(seed + 0.5) * feel.humanise * 2
+  };
+};
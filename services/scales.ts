@@ -0,0 +1,103 @@
+import { ScaleId } from '../types';
+
+export interface ScaleDefinition {
+  label: string;
+  /** Semitones above the root */
+  steps: number[];
+  /** Whether the scale's tonic triad is major or minor, for key relationships and modulation */
+  quality: 'major' | 'minor';
+  /** Scale indices of the tonic chord: root, third (or its stand-in) and fifth */
+  chordTones: number[];
+}
+
+export const SCALE_LIBRARY: Record<ScaleId, ScaleDefinition> = {
+  // The seven diatonic modes, brightest to darkest
+  'lydian': { label: 'Lydian', steps: [0, 2, 4, 6, 7, 9, 11], quality: 'major', chordTones: [0, 2, 4] },
+  'ionian': { label: 'Ionian (Major)', steps: [0, 2, 4, 5, 7, 9, 11], quality: 'major', chordTones: [0, 2, 4] },
+  'mixolydian': { label: 'Mixolydian', steps: [0, 2, 4, 5, 7, 9, 10], quality: 'major', chordTones: [0, 2, 4] },
+  'dorian': { label: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10], quality: 'minor', chordTones: [0, 2, 4] },
+  'aeolian': { label: 'Aeolian (Natural Minor)', steps: [0, 2, 3, 5, 7, 8, 10], quality: 'minor', chordTones: [0, 2, 4] },
+  'phrygian': { label: 'Phrygian', steps: [0, 1, 3, 5, 7, 8, 10], quality: 'minor', chordTones: [0, 2, 4] },
+  'locrian': { label: 'Locrian', steps: [0, 1, 3, 5, 6, 8, 10], quality: 'minor', chordTones: [0, 2, 4] },
+  // Minor variants
+  'harmonic-minor': { label: 'Harmonic Minor', steps: [0, 2, 3, 5, 7, 8, 11], quality: 'minor', chordTones: [0, 2, 4] },
+  'melodic-minor': { label: 'Melodic Minor', steps: [0, 2, 3, 5, 7, 9, 11], quality: 'minor', chordTones: [0, 2, 4] },
+  // Pentatonics
+  'major-pentatonic': { label: 'Major Pentatonic', steps: [0, 2, 4, 7, 9], quality: 'major', chordTones: [0, 2, 3] },
+  'minor-pentatonic': { label: 'Minor Pentatonic', steps: [0, 3, 5, 7, 10], quality: 'minor', chordTones: [0, 1, 3] },
+  // Symmetric
+  'whole-tone': { label: 'Whole Tone', steps: [0, 2, 4, 6, 8, 10], quality: 'major', chordTones: [0, 2, 4] },
+  'chromatic': { label: 'Chromatic', steps: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], quality: 'major', chordTones: [0, 4, 7] },
+  // Non-Western
+  'hijaz': { label: 'Hijaz', steps: [0, 1, 4, 5, 7, 8, 10], quality: 'major', chordTones: [0, 2, 4] },
+  'in': { label: 'Japanese In', steps: [0, 1, 5, 7, 8], quality: 'minor', chordTones: [0, 2, 3] }
+};
+
+export const SCALE_IDS = Object.keys(SCALE_LIBRARY) as ScaleId[];
+
+/** Semantic readings that pick a scale, each -1..1. */
+export interface ScaleFeatures {
+  mood: number;     // sombre ↔ joyful
+  energy: number;   // tranquil ↔ bustling
+  era: number;      // ancient ↔ modern
+  sacred: number;   // sacred ↔ secular
+  heritage: number; // European ↔ Asian / Middle Eastern
+}
+
+interface ScaleRule {
+  scale: (f: ScaleFeatures) => ScaleId;
+  /** Plain-language statement of the rule, shown in the DNA panel */
+  when: string;
+  test: (f: ScaleFeatures) => boolean;
+}
+
+const DIATONIC_BY_BRIGHTNESS: ScaleId[] = ['lydian', 'ionian', 'mixolydian', 'dorian', 'aeolian', 'phrygian', 'locrian'];
+
+/**
+ * SCALE SELECTION: Checked in order, first match wins. The special colours
+ * need a strong reading to trigger; everything else falls through to a
+ * diatonic mode chosen by mood alone.
+ */
+export const SCALE_RULES: ScaleRule[] = [
+  {
+    when: 'Strongly non-European heritage: Hijaz when bustling, Japanese In when calm',
+    test: f => f.heritage > 0.5,
+    scale: f => f.energy > 0 ? 'hijaz' : 'in'
+  },
+  {
+    when: 'Very modern and very bustling: chromatic',
+    test: f => f.era > 0.6 && f.energy > 0.6,
+    scale: () => 'chromatic'
+  },
+  {
+    when: 'Very modern and tranquil: whole-tone',
+    test: f => f.era > 0.6 && f.energy < -0.3,
+    scale: () => 'whole-tone'
+  },
+  {
+    when: 'Very tranquil: pentatonic, major when joyful and minor when sombre',
+    test: f => f.energy < -0.6,
+    scale: f => f.mood > 0 ? 'major-pentatonic' : 'minor-pentatonic'
+  },
+  {
+    when: 'Sombre and ancient or sacred: harmonic minor',
+    test: f => f.mood < -0.3 && (f.era < -0.4 || f.sacred < -0.4),
+    scale: () => 'harmonic-minor'
+  },
+  {
+    when: 'Sombre and modern: melodic minor',
+    test: f => f.mood < -0.3 && f.era > 0.4,
+    scale: () => 'melodic-minor'
+  },
+  {
+    when: 'Otherwise: a diatonic mode by mood, from Lydian (most joyful) to Locrian (most sombre)',
+    test: () => true,
+    scale: f => DIATONIC_BY_BRIGHTNESS[Math.round((1 - f.mood) / 2 * 6)]
+  }
+];
+
+/** Scale picked by the first matching rule, with the rule that picked it. */
+export const selectScale = (features: ScaleFeatures): { scale: ScaleId; reason: string } => {
+  const rule = SCALE_RULES.find(r => r.test(features))!;
+  return { scale: rule.scale(features), reason: rule.when };
+};
@@ -0,0 +1,359 @@
+import { InstrumentId, MusicDNA, VoiceConfig } from '../types';
+import { SCALE_LIBRARY } from './scales';
+import { chordDegreeForBar, chordPitchClasses, createVoiceLeader } from './voiceLeading';
+import { deriveFill, deriveGroove, feelAt, grooveFeel, layerHits } from './rhythm';
+import { applyOverrides, deriveDNA, DNAOverrides, ROOTS, VOICE_KEYS, VoiceKey, voiceSlice } from './musicDNA';
+import { Projection } from './projection';
+
+export { ROOTS, VOICE_KEYS };
+export type { VoiceKey };
+export type ScoreVoice = VoiceKey | 'perc';
+
+export type PercHit = 'kick' | 'snare' | 'hat' | 'impact';
+
+// Percussion events carry General MIDI drum keys as their pitch
+export const PERC_PITCHES: Record<PercHit, number> = {
+  kick: 45,   // Low Tom
+  snare: 76,  // Hi Wood Block
+  hat: 81,    // Open Triangle
+  impact: 52  // Chinese Cymbal (closest GM tam-tam)
+};
+
+// Home octave of each voice before its register shifts it
+const VOICE_OCTAVES: Record<VoiceKey, number> = { bass: 1, tenor: 2, alto: 3, soprano: 4 };
+
+// Scale spelled from C as note names; the DNA's root transposes it
+const scaleNotes = (scaleType: MusicDNA['scaleType']) => SCALE_LIBRARY[scaleType].steps.map(st => ROOTS[st]);
+
+// Note lengths in 16th-note steps: "2n", "4n", "32n" (spiccato), "8n"
+const DURATIONS = [8, 4, 0.5, 2];
+const STACCATO = 0.5;
+
+/** One note or hit. Times and durations are in 16th-note steps from the start of the score. */
+export interface ScoreEvent {
+  voice: ScoreVoice;
+  time: number;
+  pitch: number;
+  duration: number;
+  velocity: number;
+  /** Sample set for melodic voices, as assigned by the DNA of the bar */
+  instrument?: InstrumentId;
+  /** Stereo position within the part's strip, -1..1, for layers that share a voice */
+  pan?: number;
+  /** Dimension of the bar's embedding the note was read from */
+  dim?: number;
+}
+
+export interface ScoreBar {
+  startStep: number;
+  beatsPerBar: number;
+  bpm: number;
+}
+
+/** A named stretch of a longer piece, e.g. one stop of a route. */
+export interface ScoreSection {
+  label: string;
+  startStep: number;
+}
+
+export interface Score {
+  /** DNA of the opening bar */
+  dna: MusicDNA;
+  bars: ScoreBar[];
+  sections: ScoreSection[];
+  totalSteps: number;
+  events: ScoreEvent[];
+}
+
+export interface ComposeOptions {
+  /** Length of the score. Defaults to enough bars for every voice to read its whole slice once. */
+  bars?: number;
+  /** Plays this DNA instead of deriving one from the vector. */
+  dna?: MusicDNA;
+  /** Fields that replace the derived (or given) DNA on every bar. */
+  overrides?: DNAOverrides;
+  /** Axes the DNA is read along; raw dimensions without one. */
+  projection?: Projection | null;
+}
+
+/** Scientific pitch name ("Eb3") to MIDI note number, matching Tone's C4 = 60. */
+export const noteToMidi = (name: string, octave: number) => (octave + 1) * 12 + ROOTS.indexOf(name);
+
+const percEvent = (hit: PercHit, time: number, velocity: number): ScoreEvent =>
+  ({ voice: 'perc', time, pitch: PERC_PITCHES[hit], duration: 1, velocity });
+
+const nearest = (value: number, candidates: number[]) =>
+  candidates.reduce((best, c) => Math.abs(c - value) < Math.abs(best - value) ? c : best);
+
+// Thirds of a 0..1 control: low, neutral, high
+const band = (value: number) => value < 1 / 3 ? -1 : value > 2 / 3 ? 1 : 0;
+
+/**
+ * GATING: Anchor voices play on a metric grid that density halves or doubles;
+ * upper voices respond to data peaks above a density-scaled threshold.
+ */
+const shouldPlay = (voiceIdx: number, config: VoiceConfig, stepInBar: number, barIndex: number, val: number) => {
+  const density = band(config.rhythmicDensity);
+  if (voiceIdx === 0) {
+    // Bassoon anchors the 1: every other bar when sparse, twice a bar when dense
+    if (density < 0) return stepInBar === 0 && barIndex % 2 === 0;
+    if (density > 0) return stepInBar % 8 === 0;
+    return stepInBar === 0;
+  }
+  if (voiceIdx === 1) {
+    // Horn anchors the beats: half notes when sparse, eighths when dense
+    return stepInBar % (density < 0 ? 8 : density > 0 ? 2 : 4) === 0;
+  }
+  // Alto/Soprano respond to data peaks
+  return Math.abs(val) > 0.3 * (1 - config.rhythmicDensity);
+};
+
+export interface ScoreWriter {
+  /**
+   * Appends one bar read from `vector`, in `dna` (derived from the vector along the writer's projection by default), its velocities scaled by `dynamics`.
+   * `rotation` is how far `vector` was rotated from the embedding it came from, so notes name that embedding's dimensions.
+   */
+  writeBar: (vector: Float32Array, dna?: MusicDNA, dynamics?: number, rotation?: number) => void;
+  /** Appends a bar holding a chord, given as pitch classes from the root up, e.g. one step of a modulation. */
+  writeChord: (pitchClasses: number[], dna: MusicDNA) => void;
+  /** Appends a held tonic chord in `dna`'s key, struck with the tam-tam. */
+  writeCadence: (dna: MusicDNA) => void;
+  /** Starts a named section at the next bar, ending the bar before it with a fill. */
+  markSection: (label: string) => void;
+  finish: () => Score;
+}
+
+/**
+ * Accumulates bars into a score while carrying melodic state across them,
+ * so a piece can change character from one bar to the next. `overrides`
+ * are layered onto the DNA of every bar written.
+ */
+export const createScoreWriter = (overrides: DNAOverrides = {}, projection: Projection | null = null): ScoreWriter => {
+  const events: ScoreEvent[] = [];
+  const bars: ScoreBar[] = [];
+  const sections: ScoreSection[] = [];
+  const currentIndices = [0, 0, 0, 0];
+  const leader = createVoiceLeader();
+  // The last bar written, kept so a section change can end it with a fill
+  let lastBar: { vector: Float32Array; dna: MusicDNA; firstEvent: number } | null = null;
+  let opening: MusicDNA | null = null;
+  let totalSteps = 0;
+
+  const startBar = (dna: MusicDNA) => {
+    if (!opening) {
+      opening = dna;
+      // INITIAL IMPACT: Signal the start of a new data piece
+      events.push(percEvent('impact', 0, 0.6));
+    }
+    bars.push({ startStep: totalSteps, beatsPerBar: dna.beatsPerBar, bpm: dna.tempo });
+    return totalSteps;
+  };
+
+  const writeBar = (vector: Float32Array, baseDna: MusicDNA = deriveDNA(vector, projection), dynamics = 1, rotation = 0) => {
+    const dna = applyOverrides(baseDna, overrides);
+    const firstEvent = events.length;
+    const { beatsPerBar, articulation, counterpoint, scaleType, rootNote } = dna;
+    const stepsPerBar = beatsPerBar * 4;
+    const scale = scaleNotes(scaleType);
+    const transpose = ROOTS.indexOf(rootNote);
+    const barIndex = bars.length;
+    const barStart = startBar(dna);
+    const { steps, chordTones } = SCALE_LIBRARY[scaleType];
+    const scalePcs = steps.map(st => (st + transpose) % 12);
+    const chordPcs = chordPitchClasses(steps, chordTones, chordDegreeForBar(vector, barIndex), transpose);
+    const groove = deriveGroove(vector, stepsPerBar);
+
+    for (let stepInBar = 0; stepInBar < stepsPerBar; stepInBar++) {
+      const step = barStart + stepInBar;
+      const isDownbeat = stepInBar === 0;
+
+      // --- PERCUSSION SECTION ---
+      groove.forEach(layer => {
+        if (layerHits(layer, step, stepInBar)) events.push(percEvent(layer.hit, step, layer.velocity));
+      });
+
+      // --- MELODIC SECTION ---
+      VOICE_KEYS.forEach((voice, i) => {
+        const config = dna[voice];
+
+        // Counterpoint logic: Offset data-lookup if enabled
+        const dataOffset = counterpoint ? i * 25 : 0;
+        const dim = (voiceSlice(voice, vector.length)[0] + step + dataOffset) % vector.length;
+        const val = vector[dim];
+
+        if (!shouldPlay(i, config, stepInBar, barIndex, val)) return;
+
+        // Note selection: map raw values to scale steps
+        const jump = Math.round(val * 12);
+        currentIndices[i] = Math.abs(currentIndices[i] + jump) % scale.length;
+
+        // REGISTER: Shift the home octave, then follow strong data excursions
+        let octave = VOICE_OCTAVES[voice] + band(config.pitchRegister);
+        if (Math.abs(val) > 0.3) octave += (val > 0 ? 1 : -1);
+
+        const consonance = band(config.consonance);
+        let pitch: number;
+        if (dna.voiceLeading === 'raw') {
+          // CONSONANCE: Consonant voices settle on chord tones, dissonant ones lean a semitone off on odd leaps
+          if (consonance > 0) currentIndices[i] = nearest(currentIndices[i], chordTones);
+          const inflection = consonance < 0 && jump % 2 !== 0 ? 1 : 0;
+          pitch = noteToMidi(scale[currentIndices[i]], octave) + transpose + inflection;
+        } else {
+          // VOICE LEADING: The data proposes a note, the leader fits it to the progression.
+          // Consonant voices land on chord tones every time, neutral ones on the beat, dissonant ones on the downbeat.
+          const chordToneRequired = consonance > 0 || (consonance === 0 ? stepInBar % 4 === 0 : isDownbeat);
+          pitch = leader.place(voice, noteToMidi(scale[currentIndices[i]], octave) + transpose, step, { scalePcs, chordPcs, chordToneRequired });
+        }
+
+        events.push({
+          voice,
+          time: step,
+          pitch,
+          // DURATION: If articulation is low, force everything but the spiccato violin to staccato
+          duration: i !== 2 && articulation < -0.1 ? STACCATO : DURATIONS[i],
+          // VELOCITY: Tie intensity directly to data value
+          velocity: Math.min(0.8, 0.2 + Math.abs(val * 0.7)),
+          instrument: config.instrument,
+          dim: (dim + rotation) % vector.length
+        });
+      });
+    }
+
+    // DYNAMICS & FEEL: Scale the whole bar, percussion included, then swing and humanise it
+    applyFeel(firstEvent, articulation, dynamics);
+
+    lastBar = { vector, dna, firstEvent };
+    totalSteps += stepsPerBar;
+  };
+
+  const applyFeel = (firstEvent: number, articulation: number, dynamics = 1) => {
+    const feel = grooveFeel(articulation);
+    for (let e = firstEvent; e < events.length; e++) {
+      const event = events[e];
+      const { offset, velocity } = feelAt(event.time, feel, event.time * 7 + event.pitch);
+      event.time = Math.max(0, event.time + offset);
+      event.velocity = Math.min(1, event.velocity * dynamics * velocity);
+    }
+  };
+
+  // Replaces the groove under the end of the last bar with a fill into the next section
+  const writeFill = () => {
+    if (!lastBar) return;
+    const fill = deriveFill(lastBar.vector, lastBar.dna.beatsPerBar * 4);
+    const start = totalSteps - fill.length;
+    for (let e = events.length - 1; e >= lastBar.firstEvent; e--) {
+      const event = events[e];
+      if (event.voice === 'perc' && event.pitch !== PERC_PITCHES.impact && event.time >= start - 0.5) events.splice(e, 1);
+    }
+    const firstFillEvent = events.length;
+    fill.hits.forEach(h => events.push(percEvent(h.hit, start + h.offset, h.velocity)));
+    applyFeel(firstFillEvent, lastBar.dna.articulation);
+    lastBar = null;
+  };
+
+  // Holds a chord for a whole bar: root in the bass, fifth in the tenor, third in the alto, seventh (or root) on top
+  const holdChord = (pitchClasses: number[], baseDna: MusicDNA, velocity: number) => {
+    const dna = applyOverrides(baseDna, overrides);
+    const stepsPerBar = dna.beatsPerBar * 4;
+    const barStart = startBar(dna);
+    const [root, third, fifth, seventh] = pitchClasses;
+    const voicing: Record<VoiceKey, number> = { bass: root, tenor: fifth, alto: third, soprano: seventh ?? root };
+
+    events.push(percEvent('kick', barStart, 0.5));
+    VOICE_KEYS.forEach((voice, i) => {
+      // Melodic lines pick up from the chord once it has passed
+      const pitch = noteToMidi(ROOTS[voicing[voice]], VOICE_OCTAVES[voice]);
+      currentIndices[i] = 0;
+      leader.hold(voice, pitch);
+      events.push({
+        voice,
+        time: barStart,
+        pitch,
+        duration: stepsPerBar,
+        velocity,
+        instrument: dna[voice].instrument
+      });
+    });
+
+    lastBar = null;
+    totalSteps += stepsPerBar;
+    return barStart;
+  };
+
+  const writeChord = (pitchClasses: number[], dna: MusicDNA) => {
+    holdChord(pitchClasses, dna, 0.4);
+  };
+
+  const writeCadence = (baseDna: MusicDNA) => {
+    const dna = applyOverrides(baseDna, overrides);
+    const { steps, chordTones } = SCALE_LIBRARY[dna.scaleType];
+    const transpose = ROOTS.indexOf(dna.rootNote);
+    const tonic = chordTones.map(d => (steps[d] + transpose) % 12);
+    const barStart = holdChord(tonic, baseDna, 0.5);
+    events.push(percEvent('impact', barStart, 0.6));
+  };
+
+  const markSection = (label: string) => {
+    writeFill();
+    sections.push({ label, startStep: totalSteps });
+  };
+
+  const finish = (): Score => ({ dna: opening!, bars, sections, totalSteps, events });
+
+  return { writeBar, writeChord, writeCadence, markSection, finish };
+};
+
+/**
+ * Deterministically turns a vector into a typed event list. Every musical
+ * decision lives here; playback and exports only schedule the result.
+ */
+export const composeScore = (vector: Float32Array, options: ComposeOptions = {}): Score => {
+  const dna = options.dna ?? deriveDNA(vector, options.projection);
+  const stepsPerBar = applyOverrides(dna, options.overrides).beatsPerBar * 4;
+  const barCount = options.bars ?? Math.ceil(vector.length / stepsPerBar);
+  const writer = createScoreWriter(options.overrides, options.projection);
+  for (let i = 0; i < barCount; i++) writer.writeBar(vector, dna);
+  return writer.finish();
+};
+
+/**
+ * Exactly `bars` bars of `score`: cut short, or played again from the top
+ * until it is long enough. Notes still ringing at a cut end there.
+ */
+export const fitToBars = (score: Score, bars: number): Score => {
+  if (!score.bars.length || score.bars.length === bars) return score;
+  const fitted: Score = { ...score, bars: [], sections: [], events: [] };
+  let offset = 0;
+  while (fitted.bars.length < bars) {
+    const taken = score.bars.slice(0, bars - fitted.bars.length);
+    const end = score.bars[taken.length]?.startStep ?? score.totalSteps;
+    fitted.bars.push(...taken.map(b => ({ ...b, startStep: b.startStep + offset })));
+    fitted.sections.push(...score.sections.filter(s => s.startStep < end).map(s => ({ ...s, startStep: s.startStep + offset })));
+    fitted.events.push(...score.events
+      .filter(e => e.time < end)
+      .map(e => ({ ...e, time: e.time + offset, duration: Math.min(e.duration, end - e.time) })));
+    offset += end;
+  }
+  return { ...fitted, totalSteps: offset };
+};
+
+/** Seconds from the start of the score to `step`, following its per-bar tempo map. */
+export const createTimeline = (score: Score) => {
+  const barStarts: number[] = [];
+  let seconds = 0;
+  score.bars.forEach((bar, i) => {
+    barStarts.push(seconds);
+    const nextStart = score.bars[i + 1]?.startStep ?? score.totalSteps;
+    seconds += (nextStart - bar.startStep) * (15 / bar.bpm);
+  });
+
+  return (step: number) => {
+    let i = score.bars.length - 1;
+    while (i > 0 && score.bars[i].startStep > step) i--;
+    const bar = score.bars[i];
+    return barStarts[i] + (step - bar.startStep) * (15 / bar.bpm);
+  };
+};
+
+/** Duration of the whole score in seconds. */
+export const scoreDuration = (score: Score) => createTimeline(score)(score.totalSteps);
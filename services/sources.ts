@@ -0,0 +1,45 @@
+import { WikiArticle } from '../types';
+
+const STORAGE_KEY = 'wikiphonic.sources';
+
+// Pasted text has no edition; this stands in for one, so it keys and embeds like an article
+export const PASTED_LANG = 'text';
+
+export const MAX_SOURCES = 24;
+// Untitled text is named after its opening words
+const TITLE_WORDS = 6;
+
+// Pasted text is numbered below zero, clear of every real page id, and never twice even within a millisecond
+let lastPastedId = 0;
+const nextPastedId = () => (lastPastedId = Math.min(lastPastedId - 1, -Date.now()));
+
+export const isPasted = (source: WikiArticle) => source.lang === PASTED_LANG;
+
+/**
+ * A source made from pasted text, e.g. survey notes. It has no place and
+ * no page: the text is both its intro and, split at any `== Heading ==`
+ * lines, its full article.
+ */
+export const createTextSource = (text: string, title = ''): WikiArticle => {
+  const body = text.trim();
+  const opening = body.split(/\s+/).slice(0, TITLE_WORDS).join(' ');
+  return {
+    pageid: nextPastedId(),
+    lang: PASTED_LANG,
+    title: title.trim() || (body.split(/\s+/).length > TITLE_WORDS ? `${opening}…` : opening),
+    extract: body
+  };
+};
+
+/** Articles found by title and pasted texts, kept between visits. */
+export const loadSources = (): WikiArticle[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveSources = (sources: WikiArticle[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sources));
+};
@@ -0,0 +1,114 @@
+import { bearing, haversineDistance, LatLon } from './geo';
+import { Score } from './score';
+
+export type SpatialMode = 'off' | 'stereo' | 'binaural';
+
+/** Where the music sits at a step of the score, relative to the listener. */
+export interface SpatialPoint {
+  step: number;
+  /** Compass bearing in degrees clockwise from north */
+  bearing: number;
+  /** Metres from the listener */
+  distance: number;
+}
+
+// Matches the geosearch radius; anything further sits at the edge of the scene
+export const SPATIAL_RANGE_M = 5000;
+
+/**
+ * DISTANCE: Metres map onto 1–4 panner units, which the inverse distance
+ * model turns into 0 to -12 dB, so far landmarks recede without vanishing.
+ */
+export const pannerPosition = (point: Pick<SpatialPoint, 'bearing' | 'distance'>) => {
+  const units = 1 + 3 * Math.min(1, point.distance / SPATIAL_RANGE_M);
+  const rad = point.bearing * Math.PI / 180;
+  // Web Audio looks down -z, so north is -z and east is +x
+  return { x: Math.sin(rad) * units, y: 0, z: -Math.cos(rad) * units };
+};
+
+/** Position along a path at `step`, turning the short way round between keyframes. */
+export const pointAt = (path: SpatialPoint[], step: number): SpatialPoint => {
+  const next = path.findIndex(p => p.step > step);
+  if (next === -1) return { ...path[path.length - 1], step };
+  if (next === 0) return { ...path[0], step };
+
+  const a = path[next - 1];
+  const b = path[next];
+  const t = (step - a.step) / (b.step - a.step);
+  const turn = ((b.bearing - a.bearing + 540) % 360) - 180;
+  return {
+    step,
+    bearing: (a.bearing + turn * t + 360) % 360,
+    distance: a.distance + (b.distance - a.distance) * t
+  };
+};
+
+// Sweeps are redrawn once a beat, short enough that the straight ramps between read as an arc
+const SWEEP_STEPS = 4;
+
+/**
+ * Movements that trace a path: a jump to its opening point, then while it
+ * moves, one ramp per beat from `from` to the point reached at `to.step`.
+ */
+export const spatialMoves = (path: SpatialPoint[], totalSteps: number): { from: number; to: SpatialPoint }[] => {
+  const moves = [{ from: 0, to: pointAt(path, 0) }];
+  if (path.length < 2) return moves;
+  for (let step = 0; step < totalSteps; step += SWEEP_STEPS) {
+    moves.push({ from: step, to: pointAt(path, Math.min(totalSteps, step + SWEEP_STEPS)) });
+  }
+  return moves;
+};
+
+/** Where `stop` sits as heard from `listener`. */
+export const spatialPoint = (listener: LatLon, stop: LatLon, step = 0): SpatialPoint => ({
+  step,
+  bearing: bearing(listener, stop),
+  distance: haversineDistance(listener, stop)
+});
+
+/**
+ * Path of a score over real landmarks as seen from `listener`. One stop
+ * holds still, two sweep from the first to the second across the score,
+ * and a suite holds at each stop's section and sweeps through the
+ * transitions, whose sections alternate with the stops'.
+ */
+export const routePath = (listener: LatLon, stops: LatLon[], score: Score): SpatialPoint[] => {
+  const place = (stop: LatLon, step: number) => spatialPoint(listener, stop, step);
+
+  if (stops.length === 1) return [place(stops[0], 0)];
+  if (score.sections.length !== stops.length * 2 - 1) {
+    return [place(stops[0], 0), place(stops[stops.length - 1], score.totalSteps)];
+  }
+  return stops.flatMap((stop, i) => {
+    const transition = score.sections[i * 2 + 1];
+    return transition
+      ? [place(stop, score.sections[i * 2].startStep), place(stop, transition.startStep)]
+      : [place(stop, score.sections[i * 2].startStep)];
+  });
+};
+
+type CompassEvent = DeviceOrientationEvent & { webkitCompassHeading?: number };
+type PermissionedOrientation = typeof DeviceOrientationEvent & { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+/** iOS only reports orientation after asking from a user gesture; elsewhere this resolves straight away. */
+export const requestHeadingPermission = async (): Promise<boolean> => {
+  const Orientation = window.DeviceOrientationEvent as PermissionedOrientation | undefined;
+  if (!Orientation?.requestPermission) return true;
+  return (await Orientation.requestPermission()) === 'granted';
+};
+
+/**
+ * Reports the device's compass heading in degrees as it turns. Safari gives
+ * it directly; other browsers need the absolute orientation event, where
+ * alpha counts anticlockwise. Returns an unsubscribe function.
+ */
+export const watchHeading = (onHeading: (heading: number) => void): (() => void) => {
+  const handler = (e: Event) => {
+    const { webkitCompassHeading, absolute, alpha } = e as CompassEvent;
+    if (webkitCompassHeading !== undefined) onHeading(webkitCompassHeading);
+    else if (absolute && alpha !== null) onHeading((360 - alpha) % 360);
+  };
+  const event = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+  window.addEventListener(event, handler);
+  return () => window.removeEventListener(event, handler);
+};
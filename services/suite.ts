@@ -0,0 +1,43 @@
+import { calculateDifference } from './embeddingService';
+import { createScoreWriter, Score } from './score';
+import { deriveDNA, DNAOverrides } from './musicDNA';
+import { Projection } from './projection';
+
+export interface SuiteStop {
+  title: string;
+  embedding: Float32Array;
+}
+
+export interface SuiteOptions {
+  sectionBars?: number;
+  transitionBars?: number;
+  overrides?: DNAOverrides;
+  projection?: Projection | null;
+}
+
+export const MIN_ROUTE_STOPS = 3;
+export const MAX_ROUTE_STOPS = 10;
+
+/**
+ * Composes an ordered route as one continuous suite: every stop becomes a
+ * section, bridged to the next by a transition read from the pairwise
+ * difference vector, and the last stop closes on a cadence in its key.
+ */
+export const composeSuite = (stops: SuiteStop[], options: SuiteOptions = {}): Score => {
+  const { sectionBars = 8, transitionBars = 4, overrides, projection = null } = options;
+  const writer = createScoreWriter(overrides, projection);
+
+  stops.forEach((stop, i) => {
+    writer.markSection(stop.title);
+    for (let b = 0; b < sectionBars; b++) writer.writeBar(stop.embedding);
+
+    const next = stops[i + 1];
+    if (!next) return;
+    writer.markSection(`${stop.title} → ${next.title}`);
+    const diff = calculateDifference(stop.embedding, next.embedding);
+    for (let b = 0; b < transitionBars; b++) writer.writeBar(diff);
+  });
+
+  writer.writeCadence(deriveDNA(stops[stops.length - 1].embedding, projection));
+  return writer.finish();
+};
@@ -0,0 +1,138 @@
+import { VOICE_KEYS, VoiceKey } from './musicDNA';
+
+// Playable MIDI range of each voice
+export const VOICE_RANGES: Record<VoiceKey, [number, number]> = {
+  bass: [24, 50],    // C1–D3
+  tenor: [36, 62],   // C2–D4
+  alto: [48, 74],    // C3–D5
+  soprano: [60, 86]  // C4–D6
+};
+
+// A leap is anything wider than a perfect fourth
+const LEAP = 5;
+
+// Chord degrees a phrase may pass through between its opening I and closing V: IV, vi, ii, iii
+const INNER_DEGREES = [3, 5, 1, 2];
+
+/**
+ * PROGRESSION: Four-bar phrases open on I and close on V; the two bars in
+ * between pick a degree from the vector.
+ */
+export const chordDegreeForBar = (vector: Float32Array, barIndex: number) => {
+  const position = barIndex % 4;
+  if (position === 0) return 0;
+  if (position === 3) return 4;
+  const val = vector[(barIndex * 4 + position) % vector.length];
+  return INNER_DEGREES[Math.floor(Math.abs(val) * 60) % INNER_DEGREES.length];
+};
+
+/**
+ * Chord pitch classes on a degree of a scale. Heptatonic scales stack thirds;
+ * others have no functional harmony, so they hold their tonic chord.
+ */
+export const chordPitchClasses = (steps: number[], tonicTones: number[], degree: number, transpose: number) => {
+  const indices = steps.length === 7 ? [degree, degree + 2, degree + 4] : tonicTones;
+  return indices.map(k => (steps[k % steps.length] + transpose) % 12);
+};
+
+export interface HarmonyContext {
+  scalePcs: number[];
+  chordPcs: number[];
+  /** Whether this note must be a chord tone (strong beats, consonant voices) */
+  chordToneRequired: boolean;
+}
+
+interface Motion {
+  from: number;
+  to: number;
+}
+
+const isPerfect = (interval: number) => {
+  const ic = ((interval % 12) + 12) % 12;
+  return ic === 0 || ic === 7;
+};
+
+// Both voices move the same way into the same perfect interval they left
+const isParallel = (a: Motion, b: Motion) => {
+  const before = a.from - b.from;
+  const after = a.to - b.to;
+  const moveA = Math.sign(a.to - a.from);
+  return moveA !== 0 && moveA === Math.sign(b.to - b.from) && isPerfect(before) && isPerfect(after) && before % 12 === after % 12;
+};
+
+export interface VoiceLeader {
+  /** Picks the pitch a voice actually plays at `step` when the data asks for `target`. */
+  place: (voice: VoiceKey, target: number, step: number, harmony: HarmonyContext) => number;
+  /** Records a pitch placed outside the leader, e.g. a held chord, so lines continue from it. */
+  hold: (voice: VoiceKey, pitch: number) => void;
+}
+
+/**
+ * Smooths each voice's data-driven line: notes stay in range, land on chord
+ * tones where required, recover stepwise after leaps, avoid crossing their
+ * neighbours and never move in parallel fifths or octaves with a voice
+ * placed at the same step.
+ */
+export const createVoiceLeader = (): VoiceLeader => {
+  const last: Partial<Record<VoiceKey, number>> = {};
+  const lastMove: Record<VoiceKey, number> = { bass: 0, tenor: 0, alto: 0, soprano: 0 };
+  let currentStep = -1;
+  let placed: Partial<Record<VoiceKey, Motion>> = {};
+
+  const place = (voice: VoiceKey, target: number, step: number, harmony: HarmonyContext) => {
+    if (step !== currentStep) {
+      currentStep = step;
+      placed = {};
+    }
+
+    const [low, high] = VOICE_RANGES[voice];
+    const pcs = harmony.chordToneRequired ? harmony.chordPcs : harmony.scalePcs;
+    const candidates: number[] = [];
+    for (let p = low; p <= high; p++) if (pcs.includes(p % 12)) candidates.push(p);
+
+    // Octave-shift the data's target into range before measuring distances
+    let goal = target;
+    while (goal < low) goal += 12;
+    while (goal > high) goal -= 12;
+
+    const prev = last[voice];
+    const idx = VOICE_KEYS.indexOf(voice);
+    const below = idx > 0 ? last[VOICE_KEYS[idx - 1]] : undefined;
+    const above = idx < VOICE_KEYS.length - 1 ? last[VOICE_KEYS[idx + 1]] : undefined;
+    const afterLeap = prev !== undefined && Math.abs(lastMove[voice]) > LEAP;
+    const score = (p: number) => {
+      let cost = Math.abs(p - goal);
+      if (afterLeap) {
+        // Recover by step in the opposite direction
+        const move = p - prev!;
+        const stepwise = Math.abs(move) <= 2 && Math.sign(move) === -Math.sign(lastMove[voice]);
+        cost += stepwise ? 0 : 24;
+      }
+      // Stay between the neighbouring voices rather than cross them
+      if ((below !== undefined && p < below) || (above !== undefined && p > above)) cost += 12;
+      return cost;
+    };
+    candidates.sort((a, b) => score(a) - score(b));
+
+    // Check against voices already placed at this step; fall back to the best candidate if all clash
+    const clashes = (p: number) => prev !== undefined && VOICE_KEYS.some(other => {
+      const motion = placed[other];
+      return other !== voice && motion !== undefined && isParallel({ from: prev, to: p }, motion);
+    });
+    const pitch = candidates.find(p => !clashes(p)) ?? candidates[0] ?? goal;
+
+    if (prev !== undefined) {
+      lastMove[voice] = pitch - prev;
+      placed[voice] = { from: prev, to: pitch };
+    }
+    last[voice] = pitch;
+    return pitch;
+  };
+
+  const hold = (voice: VoiceKey, pitch: number) => {
+    last[voice] = pitch;
+    lastMove[voice] = 0;
+  };
+
+  return { place, hold };
+};
@@ -0,0 +1,44 @@
+import { Landmark, Location } from '../types';
+import { haversineDistance, LatLon, toLatLon } from './geo';
+import { landmarkKey } from './wikipediaService';
+
+/** Reports positions until the returned function is called. */
+export type PositionSource = (onPosition: (location: Location) => void, onError: (message: string) => void) => () => void;
+
+// Landmarks are re-fetched after moving this far, but never more often than the interval
+const REFRESH_DISTANCE_M = 150;
+const REFRESH_INTERVAL_MS = 15000;
+// A new landmark has to be this much nearer than the one playing before the music moves on
+const SWITCH_MARGIN_M = 25;
+
+/** Live GPS through `watchPosition`, high accuracy so walking pace registers. */
+export const livePosition: PositionSource = (onPosition, onError) => {
+  const id = navigator.geolocation.watchPosition(
+    (pos) => onPosition({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+    (err) => onError(err.message),
+    { enableHighAccuracy: true, maximumAge: 5000 }
+  );
+  return () => navigator.geolocation.clearWatch(id);
+};
+
+export interface LandmarkFetch {
+  location: Location;
+  time: number;
+}
+
+/** Whether to re-fetch landmarks at `here`: moved far enough since the last fetch and not too soon after it. */
+export const shouldRefresh = (last: LandmarkFetch | null, here: Location, now: number) =>
+  !last || (now - last.time >= REFRESH_INTERVAL_MS && haversineDistance(toLatLon(last.location), toLatLon(here)) >= REFRESH_DISTANCE_M);
+
+/**
+ * NEAREST: The landmark closest to `here`, keeping `current` unless another
+ * is clearly closer, so standing between two landmarks doesn't flip the
+ * music back and forth.
+ */
+export const nearestLandmark = (here: Location, landmarks: Landmark[], current: Landmark | null): Landmark | null => {
+  const at = toLatLon(here);
+  const distanceTo = (a: LatLon) => haversineDistance(at, a);
+  const nearest = landmarks.reduce<Landmark | null>((best, l) => !best || distanceTo(l) < distanceTo(best) ? l : best, null);
+  if (!nearest || !current || landmarkKey(nearest) === landmarkKey(current)) return nearest ?? current;
+  return distanceTo(nearest) + SWITCH_MARGIN_M < distanceTo(current) ? nearest : current;
+};
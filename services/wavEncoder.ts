@@ -0,0 +1,48 @@
+export type WavBitDepth = 16 | 24;
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/** Encodes an AudioBuffer as interleaved little-endian PCM in a RIFF/WAVE container. */
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Uint8Array => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.round(Math.max(-1, Math.min(1, data[c][i])) * max);
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample, true);
+      } else {
+        view.setUint8(offset, sample & 0xff);
+        view.setUint8(offset + 1, (sample >> 8) & 0xff);
+        view.setUint8(offset + 2, (sample >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Uint8Array(view.buffer);
+};
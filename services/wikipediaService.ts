@@ -1,27 +1,320 @@
+import { WikiArticle, Landmark, Location } from '../types';
+import { cacheGet, cachePut, isOffline, OfflineMissError } from './cache';
+import { haversineDistance, toLatLon } from './geo';
+import { instanceTypes, LandmarkType, matchesTypes } from './landmarkTypes';
 
-import { WikiArticle, Location } from '../types';
+const STORAGE_KEY = 'wikiphonic.geosearch';
 
-export const getNearbyLandmarks = async (loc: Location): Promise<WikiArticle[]> => {
-  const url = `https://en.wikipedia.org/w/api.php?action=query&list=geosearch&gsradius=5000&gslimit=15&gscoord=${loc.latitude}|${loc.longitude}&format=json&origin=*`;
-  
+// Searches are cached per ~100 m cell, so small moves reuse the same results
+const COORD_DECIMALS = 3;
+
+// API ceilings: geosearch radius and results, and page ids per prop query
+export const MAX_RADIUS_M = 10000;
+const MAX_GEOSEARCH = 500;
+const PAGE_BATCH = 50;
+// With a type filter, this many candidates are looked at per wanted result
+const FILTER_OVERSAMPLE = 5;
+
+/** Editions offered in the language selector, by Wikipedia subdomain */
+export const WIKI_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'es', label: 'Español' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pt', label: 'Português' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'ja', label: '日本語' },
+  { code: 'zh', label: '中文' }
+];
+
+export type LandmarkSort = 'distance' | 'extract' | 'semantic';
+
+export interface GeoSearchSettings {
+  /** Metres, up to MAX_RADIUS_M */
+  radius: number;
+  /** Landmarks wanted after filtering */
+  limit: number;
+  /** Wikidata instance types to keep; empty keeps everything */
+  types: LandmarkType[];
+  /** List order; 'semantic' ranks by closeness in meaning to an anchor landmark */
+  sort: LandmarkSort;
+  /** Edition searched */
+  language: string;
+  /** A second edition whose landmarks are added, minus those the first already has */
+  mergeWith: string | null;
+}
+
+export const DEFAULT_GEOSEARCH: GeoSearchSettings = { radius: 5000, limit: 15, types: [], sort: 'distance', language: 'en', mergeWith: null };
+
+/** Editions a search reads from, the searched one first. */
+export const searchLanguages = (settings: GeoSearchSettings) =>
+  settings.mergeWith && settings.mergeWith !== settings.language ? [settings.language, settings.mergeWith] : [settings.language];
+
+/** Identity of a landmark; page ids are only unique within one edition. */
+export const landmarkKey = (article: WikiArticle) => `${article.lang}:${article.pageid}`;
+
+export const loadGeoSearchSettings = (): GeoSearchSettings => {
+  try {
+    return { ...DEFAULT_GEOSEARCH, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_GEOSEARCH;
+  }
+};
+
+export const saveGeoSearchSettings = (settings: GeoSearchSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+interface CachedExtract {
+  revision: number;
+  extract: string;
+}
+
+// Throttling, server errors and API errors are thrown rather than read as no results, so they never reach the cache
+const apiJson = async (url: string) => {
   const response = await fetch(url);
+  if (!response.ok) throw new Error(`Wikipedia API request failed (${response.status})`);
   const data = await response.json();
-  
-  if (!data.query || !data.query.geosearch) {
-    return [];
+  if (data.error) throw new Error(`Wikipedia API error: ${data.error.info ?? data.error.code}`);
+  return data;
+};
+
+const query = (lang: string, params: string) =>
+  apiJson(`https://${lang}.wikipedia.org/w/api.php?action=query&${params}&format=json&origin=*`);
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * PAGING: Prop queries hand back partial results plus a `continue` block
+ * (extracts arrive 20 at a time); this follows it until every page is
+ * complete, merging the pieces by page id.
+ */
+const queryPages = async (lang: string, params: string, pageIds: number[]): Promise<Record<number, any>> => {
+  const pages: Record<number, any> = {};
+  for (const ids of chunk(pageIds, PAGE_BATCH)) {
+    let next: Record<string, string> | undefined = {};
+    while (next) {
+      const resume = Object.entries(next).map(([k, v]) => `&${k}=${encodeURIComponent(v)}`).join('');
+      const data = await query(lang, `${params}&pageids=${ids.join('|')}${resume}`);
+      Object.values<any>(data.query?.pages ?? {}).forEach(page => {
+        pages[page.pageid] = { ...pages[page.pageid], ...page };
+      });
+      next = data.continue;
+    }
+  }
+  return pages;
+};
+
+const searchArea = async (lang: string, cell: Location, radius: number, limit: number): Promise<Landmark[]> => {
+  const key = `${lang}:${cell.latitude},${cell.longitude}:${radius}:${limit}`;
+  const cached = await cacheGet<Landmark[]>('geosearch', key);
+  if (cached) return cached;
+  if (isOffline()) throw new OfflineMissError('this area');
+
+  const data = await query(lang, `list=geosearch&gsradius=${radius}&gslimit=${limit}&gscoord=${cell.latitude}|${cell.longitude}`);
+  const articles: Landmark[] = (data.query?.geosearch ?? []).map((a: Omit<Landmark, 'lang'>) => ({ ...a, lang }));
+  await cachePut('geosearch', key, articles);
+  return articles;
+};
+
+/** Keeps the articles whose Wikidata item is an instance of one of `types`. */
+const filterByType = async <T extends WikiArticle>(lang: string, articles: T[], types: LandmarkType[]): Promise<T[]> => {
+  const pageIds = articles.map(a => a.pageid);
+  const cached = await Promise.all(pageIds.map(id => cacheGet<string>('wikidata', `page:${lang}:${id}`)));
+  const items: Record<number, string> = {};
+  const unknown = pageIds.filter((id, i) => {
+    if (cached[i] !== undefined) items[id] = cached[i]!;
+    return cached[i] === undefined;
+  });
+
+  if (unknown.length && !isOffline()) {
+    const pages = await queryPages(lang, 'prop=pageprops&ppprop=wikibase_item', unknown);
+    await Promise.all(unknown.map(id => {
+      items[id] = pages[id]?.pageprops?.wikibase_item ?? '';
+      return cachePut('wikidata', `page:${lang}:${id}`, items[id]);
+    }));
+  }
+
+  const instances = await instanceTypes([...new Set(Object.values(items).filter(Boolean))]);
+  return articles.filter(a => items[a.pageid] && matchesTypes(instances[items[a.pageid]] ?? [], types));
+};
+
+/**
+ * MERGE: Drops the `other` edition's articles that `primary` already has,
+ * going by the primary articles' langlinks into that edition. Offline,
+ * only cached links are known.
+ */
+const withoutTranslations = async <T extends WikiArticle>(primary: T[], other: T[]): Promise<T[]> => {
+  if (!primary.length || !other.length) return other;
+  const lang = primary[0].lang;
+  const otherLang = other[0].lang;
+  const linkKey = (id: number) => `langlink:${lang}:${id}:${otherLang}`;
+
+  const pageIds = primary.map(a => a.pageid);
+  const cached = await Promise.all(pageIds.map(id => cacheGet<string>('wikidata', linkKey(id))));
+  const titles = new Set(cached.filter(Boolean) as string[]);
+  const unknown = pageIds.filter((_, i) => cached[i] === undefined);
+
+  if (unknown.length && !isOffline()) {
+    const pages = await queryPages(lang, `prop=langlinks&lllang=${otherLang}&lllimit=max`, unknown);
+    await Promise.all(unknown.map(id => {
+      const title: string = pages[id]?.langlinks?.[0]?.['*'] ?? '';
+      if (title) titles.add(title);
+      return cachePut('wikidata', linkKey(id), title);
+    }));
+  }
+  return other.filter(a => !titles.has(a.title));
+};
+
+/**
+ * EXTRACTS: Online, a light revision check decides which cached extracts are
+ * still current and only the rest are downloaded. Offline, whatever revision
+ * was cached is used.
+ */
+const getExtracts = async (lang: string, pageIds: number[]): Promise<Record<number, string>> => {
+  const cached = await Promise.all(pageIds.map(id => cacheGet<CachedExtract>('extracts', `${lang}:${id}`)));
+  const extracts: Record<number, string> = {};
+
+  if (isOffline()) {
+    pageIds.forEach((id, i) => { if (cached[i]) extracts[id] = cached[i]!.extract; });
+    return extracts;
   }
 
-  const articles: WikiArticle[] = data.query.geosearch;
-
-  // Fetch extracts for each
-  const pageIds = articles.map(a => a.pageid).join('|');
-  const extractUrl = `https://en.wikipedia.org/w/api.php?action=query&prop=extracts&exintro&explaintext&pageids=${pageIds}&format=json&origin=*`;
-  
-  const extractResponse = await fetch(extractUrl);
-  const extractData = await extractResponse.json();
-  
-  return articles.map(article => ({
-    ...article,
-    extract: extractData.query.pages[article.pageid]?.extract || 'No information available.'
+  const info = await queryPages(lang, 'prop=info', pageIds);
+  const revisions: Record<number, number> = Object.fromEntries(
+    pageIds.map(id => [id, info[id]?.lastrevid ?? 0])
+  );
+  const stale = pageIds.filter((id, i) => {
+    if (cached[i]?.revision === revisions[id]) {
+      extracts[id] = cached[i]!.extract;
+      return false;
+    }
+    return true;
+  });
+  if (!stale.length) return extracts;
+
+  const pages = await queryPages(lang, 'prop=extracts&exintro&explaintext', stale);
+  await Promise.all(stale.map(id => {
+    const extract = pages[id]?.extract;
+    if (!extract) return;
+    extracts[id] = extract;
+    return cachePut<CachedExtract>('extracts', `${lang}:${id}`, { revision: revisions[id], extract });
   }));
+  return extracts;
+};
+
+/**
+ * The whole article as plain text, `== Heading ==` lines marking its
+ * sections. Fetched one page at a time, since the API only batches intros,
+ * and re-downloaded only when the article has a newer revision.
+ */
+export const getFullArticle = async (article: WikiArticle): Promise<string> => {
+  const key = `full:${article.lang}:${article.pageid}`;
+  const cached = await cacheGet<CachedExtract>('extracts', key);
+  if (isOffline()) {
+    if (!cached) throw new OfflineMissError(`the full "${article.title}" article`);
+    return cached.extract;
+  }
+
+  const info = await queryPages(article.lang, 'prop=info', [article.pageid]);
+  const revision: number = info[article.pageid]?.lastrevid ?? 0;
+  if (cached?.revision === revision) return cached.extract;
+
+  const pages = await queryPages(article.lang, 'prop=extracts&explaintext&exsectionformat=wiki', [article.pageid]);
+  const extract: string = pages[article.pageid]?.extract ?? '';
+  if (extract) await cachePut<CachedExtract>('extracts', key, { revision, extract });
+  return extract;
+};
+
+/** Titles in an edition that start with `text`, as Wikipedia's own search box suggests them. */
+export const searchTitles = async (lang: string, text: string, limit = 8): Promise<string[]> => {
+  if (isOffline()) throw new OfflineMissError('title search');
+  const [, titles] = await apiJson(`https://${lang}.wikipedia.org/w/api.php?action=opensearch&search=${encodeURIComponent(text)}&limit=${limit}&namespace=0&format=json&origin=*`);
+  return titles ?? [];
+};
+
+/**
+ * Any article by title, following redirects, with its intro. Geotagged
+ * articles keep their coordinates so they can be placed around the
+ * listener; others play from straight ahead. Null when there's no such page.
+ */
+export const getArticle = async (lang: string, title: string): Promise<WikiArticle | null> => {
+  if (isOffline()) throw new OfflineMissError(`"${title}"`);
+  const data = await query(lang, `titles=${encodeURIComponent(title)}&redirects&prop=coordinates`);
+  const page = Object.values<any>(data.query?.pages ?? {})[0];
+  if (!page || page.missing !== undefined) return null;
+
+  const extract = (await getExtracts(lang, [page.pageid]))[page.pageid];
+  const coordinates = page.coordinates?.[0];
+  return {
+    pageid: page.pageid,
+    lang,
+    title: page.title,
+    extract: extract || 'No information available.',
+    ...(coordinates && { lat: coordinates.lat, lon: coordinates.lon })
+  };
+};
+
+/**
+ * PLACES: Geotagged articles whose titles start with `text`, best match
+ * first, as centres to search around. Articles without coordinates are left out.
+ */
+export const searchPlaces = async (lang: string, text: string, limit = 6): Promise<{ title: string; location: Location }[]> => {
+  if (isOffline()) throw new OfflineMissError('place search');
+  const data = await query(lang, `generator=prefixsearch&gpssearch=${encodeURIComponent(text)}&gpslimit=${limit}&prop=coordinates&coprimary=primary&colimit=max`);
+  return Object.values<any>(data.query?.pages ?? {})
+    .filter(page => page.coordinates?.length)
+    .sort((a, b) => a.index - b.index)
+    .map(page => ({ title: page.title, location: { latitude: page.coordinates[0].lat, longitude: page.coordinates[0].lon } }));
+};
+
+/**
+ * Landmarks within `settings.radius` of `loc`, nearest first. With type
+ * filters, a wider pool of candidates is searched and narrowed down by
+ * each article's Wikidata "instance of". With a second edition, its
+ * landmarks missing from the first are added.
+ */
+export const getNearbyLandmarks = async (loc: Location, settings: GeoSearchSettings = DEFAULT_GEOSEARCH): Promise<Landmark[]> => {
+  const cell = {
+    latitude: Number(loc.latitude.toFixed(COORD_DECIMALS)),
+    longitude: Number(loc.longitude.toFixed(COORD_DECIMALS))
+  };
+  const radius = Math.min(MAX_RADIUS_M, Math.max(10, Math.round(settings.radius)));
+  const pool = Math.min(MAX_GEOSEARCH, settings.types.length ? settings.limit * FILTER_OVERSAMPLE : settings.limit);
+  const search = async (lang: string) => {
+    const found = await searchArea(lang, cell, radius, pool);
+    return settings.types.length ? filterByType(lang, found, settings.types) : found;
+  };
+  const [primary, other = []] = await Promise.all(searchLanguages(settings).map(search));
+  const matches = [...primary, ...await withoutTranslations(primary, other)];
+
+  // Distances are measured from the real position, not the cell the search was cached under
+  const articles = matches
+    .map(article => ({ ...article, dist: Math.round(haversineDistance(toLatLon(loc), article)) }))
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, settings.limit);
+  if (!articles.length) return [];
+
+  const extracts = Object.fromEntries(await Promise.all(searchLanguages(settings).map(async lang =>
+    [lang, await getExtracts(lang, articles.filter(a => a.lang === lang).map(a => a.pageid))] as const
+  )));
+  return articles.map(article => ({ ...article, extract: extracts[article.lang][article.pageid] || 'No information available.' }));
+};
+
+/**
+ * Landmarks in list order. 'extract' puts the longest articles first;
+ * 'semantic' needs each landmark's `closeness` to the anchor (cosine
+ * similarity) and puts the most alike first. Ties fall back to distance.
+ */
+export const sortLandmarks = (
+  landmarks: Landmark[],
+  sort: LandmarkSort,
+  closeness: Record<string, number> = {}
+): Landmark[] => {
+  const score = (l: Landmark) =>
+    sort === 'extract' ? l.extract?.length ?? 0 : sort === 'semantic' ? closeness[landmarkKey(l)] ?? -Infinity : 0;
+  return [...landmarks].sort((a, b) => score(b) - score(a) || a.dist - b.dist);
 };
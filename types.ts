@@ -1,18 +1,52 @@
 
 export interface WikiArticle {
   pageid: number;
+  /** Wikipedia edition the article is from, e.g. 'en', or 'text' for pasted text */
+  lang: string;
   title: string;
-  dist: number;
-  lat: number;
-  lon: number;
+  /** Metres from the search centre, for nearby landmarks */
+  dist?: number;
+  /** Absent for articles found by title that aren't geotagged, and for pasted text */
+  lat?: number;
+  lon?: number;
   extract?: string;
 }
 
+/** An article found around a point, so always placed. */
+export type Landmark = WikiArticle & { dist: number; lat: number; lon: number };
+
+export type InstrumentId =
+  | 'bassoon'
+  | 'bass-electric'
+  | 'cello'
+  | 'french-horn'
+  | 'viola'
+  | 'violin'
+  | 'violin-spiccato'
+  | 'flute';
+
+export type ScaleId =
+  | 'lydian'
+  | 'ionian'
+  | 'mixolydian'
+  | 'dorian'
+  | 'aeolian'
+  | 'phrygian'
+  | 'locrian'
+  | 'harmonic-minor'
+  | 'melodic-minor'
+  | 'major-pentatonic'
+  | 'minor-pentatonic'
+  | 'whole-tone'
+  | 'chromatic'
+  | 'hijaz'
+  | 'in';
+
 export interface VoiceConfig {
   pitchRegister: number; // 0 to 1
   rhythmicDensity: number; // 0 to 1
   consonance: number; // 0 to 1
-  instrument: 'double-bass' | 'cello' | 'viola' | 'violin';
+  instrument: InstrumentId;
 }
 
 export interface MusicDNA {
@@ -21,7 +55,12 @@ export interface MusicDNA {
   alto: VoiceConfig;
   soprano: VoiceConfig;
   tempo: number;
-  scaleType: 'major' | 'minor' | 'chromatic';
+  scaleType: ScaleId;
+  rootNote: string;
+  beatsPerBar: 3 | 4 | 5;
+  articulation: number; // -1 (staccato) to 1 (legato)
+  counterpoint: boolean;
+  voiceLeading: 'smooth' | 'raw'; // raw: each voice follows its data alone
 }
 
 export interface Location {